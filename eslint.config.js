@@ -21,4 +21,10 @@ export default [
       // Add any custom rules here
     },
   },
+  {
+    files: ['src/cli.ts'],
+    languageOptions: {
+      globals: globals.node,
+    },
+  },
 ];
@@ -0,0 +1,40 @@
+import { MotionParameters } from './profile.js';
+import { smoothen } from './smoothen.js';
+import { rounding } from './arithmetic.js';
+
+// ftm: FTMotion linear advance, p + k * v followed by the smoothen() filter
+// classic: Marlin's stepper ISR linear advance, p + k * v applied to the steps directly, without smoothing
+// klipper: Klipper's pressure advance, p + k * v averaged over a symmetric triangular window of smooth_time
+export type AdvanceAlgorithm = 'ftm' | 'classic' | 'klipper';
+
+// Symmetric time-weighted average with a triangular window spanning smoothTime, as in Klipper's kin_extruder.c.
+// It looks ahead by half the window, which Klipper can do since the moves are queued in advance.
+export function triangularAverage(values: Float64Array, smoothTime: number, dt: number): Float64Array {
+  const half = Math.round((0.5 * smoothTime) / dt);
+  if (half === 0 || values.length === 0) return values;
+  const weights = Array.from({ length: 2 * half + 1 }, (_, j) => half + 1 - Math.abs(j - half));
+  const total = weights.reduce((sum, w) => sum + w, 0);
+  const last = values.length - 1;
+  return values.map(
+    (_, i) => weights.reduce((sum, w, j) => sum + w * values[Math.min(Math.max(i + j - half, 0), last)], 0) / total
+  );
+}
+
+export function applyAdvance(
+  positions: Float64Array,
+  velocities: Float64Array,
+  params: MotionParameters
+): Float64Array {
+  const dt = 1 / params.ftmFs;
+  const round = rounding(params.arithmetic);
+  const k = round(params.k);
+  const advanced = positions.map((p, i) => round(p + round(k * round(velocities[i]))));
+  switch (params.advanceAlgorithm) {
+    case 'classic':
+      return advanced;
+    case 'klipper':
+      return triangularAverage(advanced, params.paSmoothTime, dt);
+    default:
+      return smoothen(advanced, params.smoothingTime, dt, params.ftmFs, params.ftmSmoothingOrder, round);
+  }
+}
@@ -0,0 +1,13 @@
+// float64: JavaScript numbers, the reference
+// float32: every intermediate result rounded to single precision, like Marlin on an MCU with a single precision FPU
+export type Arithmetic = 'float64' | 'float32';
+
+// Applied to the result of every operation, so float32 mode rounds at each step
+export type Round = (value: number) => number;
+
+export const exact: Round = (value) => value;
+
+export const rounding = (arithmetic: Arithmetic): Round => (arithmetic === 'float32' ? Math.fround : exact);
+
+// Relative spacing of the numbers around 1, the scale of the rounding error of one operation
+export const machineEpsilon = (arithmetic: Arithmetic) => (arithmetic === 'float32' ? 2 ** -23 : Number.EPSILON);
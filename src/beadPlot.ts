@@ -0,0 +1,100 @@
+import { MotionParameters } from './profile.js';
+import { Traces, extent } from './traces.js';
+import { BeadSegment, beadSegments, nozzlePath } from './path.js';
+
+// Widths beyond this multiple of the line width are drawn at it
+const maxWidthRatio = 3;
+
+// Hue from blue (thin) over green (nominal) to red (thick)
+const widthColor = (ratio: number) => `hsl(${Math.max(0, Math.min(240, 240 - (ratio - 0.5) * 240))}, 80%, 45%)`;
+
+// Top-down view of the bead deposited by the effective extrusion along the nozzle path, drawn to scale
+export class BeadPlot {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private params: MotionParameters | null = null;
+  private segments: BeadSegment[] = [];
+  private path: { x: Float64Array; y: Float64Array } | null = null;
+
+  constructor(canvasId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+    window.addEventListener('resize', () => this.draw());
+  }
+
+  update(traces: Traces, params: MotionParameters): void {
+    this.params = params;
+    this.segments = beadSegments(traces, params);
+    this.path = nozzlePath(params);
+    this.draw();
+  }
+
+  draw(): void {
+    if (!this.path || !this.params || this.canvas.offsetParent === null) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.canvas.width = rect.width * window.devicePixelRatio;
+    this.canvas.height = rect.height * window.devicePixelRatio;
+    this.ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0);
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const { lineWidth } = this.params;
+    const segments = this.segments;
+    const { x, y } = this.path;
+    if (segments.length === 0) return;
+
+    // Fit the path, plus room for the widest bead, with equal scales on both axes
+    const margin = lineWidth * maxWidthRatio;
+    const xRange = extent(x);
+    const yRange = extent(y);
+    const minX = xRange.min - margin;
+    const maxX = xRange.max + margin;
+    const minY = yRange.min - margin;
+    const maxY = yRange.max + margin;
+    const scale = Math.min((rect.width - 40) / (maxX - minX), (rect.height - 60) / (maxY - minY));
+    const offsetX = (rect.width - (maxX - minX) * scale) / 2;
+    const offsetY = 20 + (rect.height - 40 - (maxY - minY) * scale) / 2;
+    const toX = (value: number) => offsetX + (value - minX) * scale;
+    // Y up, like the printer bed seen from above
+    const toY = (value: number) => offsetY + (maxY - value) * scale;
+
+    this.ctx.lineCap = 'round';
+    for (const { from, to, width } of segments) {
+      if (width <= 0) continue;
+      const ratio = Math.min(width / lineWidth, maxWidthRatio);
+      this.ctx.strokeStyle = widthColor(ratio);
+      this.ctx.lineWidth = Math.max(ratio * lineWidth * scale, 0.5);
+      this.ctx.beginPath();
+      this.ctx.moveTo(toX(from[0]), toY(from[1]));
+      this.ctx.lineTo(toX(to[0]), toY(to[1]));
+      this.ctx.stroke();
+    }
+    this.ctx.lineCap = 'butt';
+
+    // Nozzle path
+    this.ctx.strokeStyle = 'rgba(0, 0, 0, 0.5)';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    x.forEach((value, i) => {
+      if (i === 0) {
+        this.ctx.moveTo(toX(value), toY(y[i]));
+      } else {
+        this.ctx.lineTo(toX(value), toY(y[i]));
+      }
+    });
+    this.ctx.stroke();
+
+    const widths = extent(segments.map((segment) => segment.width));
+    this.ctx.font = '14px Arial';
+    this.ctx.fillStyle = '#333';
+    this.ctx.fillText('Bead width (top view)', 20, 15);
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.fillText(
+      `min ${Math.max(widths.min, 0).toFixed(3)} mm, max ${widths.max.toFixed(3)} mm, ` +
+        `nominal ${lineWidth.toFixed(3)} mm`,
+      rect.width - 20,
+      15
+    );
+    this.ctx.textAlign = 'left';
+  }
+}
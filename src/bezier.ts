@@ -0,0 +1,68 @@
+import { isDegenerateMove, lastSampleTime, trapezoidTimings } from './trapezoidal.js';
+import { Round, exact } from './arithmetic.js';
+
+// Marlin's S_CURVE_ACCELERATION: the trapezoid timings, with the speed in each accel/decel phase following
+// a 5th order Bezier with control points v0, v0, v0, v1, v1, v1, i.e. v(u) = v0 + (v1 - v0) * (10u³ - 15u⁴ + 6u⁵).
+// The position is the 6th order integral; the peak acceleration is 1.875x the trapezoidal one.
+function bezierPosition(v0: number, v1: number, Ts: number, u: number, round: Round): number {
+  const u4 = round(round(round(u * u) * u) * u);
+  const shape = round(round(2.5 - round(3.0 * u)) + round(u * u));
+  return round(round(round(v0 * Ts) * u) + round(round(round(round(v1 - v0) * Ts) * u4) * shape));
+}
+
+export function bezierProfile(
+  distance: number,
+  rate: number,
+  acceleration: number,
+  deceleration: number,
+  dt: number,
+  initial_speed = 0.0,
+  final_speed = 0.0,
+  startTime = 0.0,
+  round: Round = exact
+): number[] {
+  const profile: number[] = [];
+  if (isDegenerateMove(distance, rate, acceleration, deceleration)) return profile;
+
+  const { T1, T2, T3, nominal_speed } = trapezoidTimings(
+    distance,
+    rate,
+    acceleration,
+    deceleration,
+    initial_speed,
+    final_speed,
+    round
+  );
+
+  const pos_before_coast = round(round(0.5 * round(initial_speed + nominal_speed)) * T1);
+  const pos_after_coast = round(pos_before_coast + round(nominal_speed * T2));
+
+  // Generate profile points - calculate positions
+  let time = startTime;
+  const decel_start = round(T1 + T2);
+  const totalTime = round(decel_start + T3);
+
+  while (time <= lastSampleTime(totalTime, dt)) {
+    const now = Math.min(time, totalTime);
+    let position: number;
+
+    if (now < T1) {
+      // Accel phase
+      position = bezierPosition(initial_speed, nominal_speed, T1, round(now / T1), round);
+    } else if (now <= decel_start) {
+      // Coast
+      position = round(pos_before_coast + round(nominal_speed * round(now - T1)));
+    } else {
+      // Decel phase
+      const t_decel = round(now - decel_start);
+      position = round(pos_after_coast + bezierPosition(nominal_speed, final_speed, T3, round(t_decel / T3), round));
+    }
+
+    profile.push(position);
+
+    // The sample time accumulates, as in the firmware loop
+    time = round(time + dt);
+  }
+
+  return profile;
+}
@@ -0,0 +1,106 @@
+#!/usr/bin/env node
+import { readFileSync, writeFileSync } from 'fs';
+import { MotionParameters, calculateMotionProfile, defaultParameters } from './profile.js';
+import { calculateAllTraces } from './traces.js';
+import { tracesToCsv, tracesToJson } from './format.js';
+import { parameterChoices, parseParams } from './state.js';
+
+const flagName = (key: string) => key.replace(/[A-Z]/g, (c) => '-' + c.toLowerCase());
+
+const usage = `Usage: ftm-sim [options]
+
+Runs a simulation and writes the planned, with-advance and effective traces.
+
+Options:
+  --params <file>     JSON file with (a subset of) the motion parameters
+  --<parameter> <v>   Any motion parameter, e.g. --distance 50 --smoothing-time 0.02
+  --format csv|json   Output format (default: csv)
+  --out <file>        Output file (default: stdout)
+  --help              Show this help
+
+Parameters and defaults:
+${Object.entries(defaultParameters)
+  .map(([key, value]) => `  ${flagName(key)}: ${value}`)
+  .join('\n')}
+`;
+
+function fail(message: string): never {
+  process.stderr.write(`${message}\n\n${usage}`);
+  process.exit(1);
+}
+
+function readParams(file: string): Partial<MotionParameters> {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf8');
+  } catch (error) {
+    fail(`Cannot read ${file}: ${(error as Error).message}`);
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    fail(`Invalid JSON in ${file}: ${(error as Error).message}`);
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) fail(`Not a JSON object: ${file}`);
+  const { params, invalid } = parseParams(parsed as Record<string, unknown>);
+  if (invalid.length > 0) fail(`Invalid value for ${invalid.join(', ')} in ${file}`);
+  return params;
+}
+
+// Same coercion as the params file: finite numbers, a JSON block list or one of the choices
+function parseValue(flag: string, key: string, value: string): Partial<MotionParameters> {
+  const { params, invalid } = parseParams({ [key]: value });
+  if (invalid.length === 0) return params;
+  if (key in parameterChoices) {
+    const allowed: readonly string[] = parameterChoices[key as keyof typeof parameterChoices];
+    fail(`Unknown ${flag.slice(2)}: ${value} (one of ${allowed.join(', ')})`);
+  }
+  fail(`Invalid value: ${flag} ${value}`);
+}
+
+function parseArgs(argv: string[]) {
+  let params: MotionParameters = { ...defaultParameters };
+  let format = 'csv';
+  let out: string | undefined;
+  let overrides: Partial<MotionParameters> = {};
+
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i];
+    if (flag === '--help' || flag === '-h') {
+      process.stdout.write(usage);
+      process.exit(0);
+    }
+    if (!flag.startsWith('--')) fail(`Unexpected argument: ${flag}`);
+    const value = argv[++i];
+    if (value === undefined) fail(`Missing value for ${flag}`);
+
+    const name = flag.slice(2);
+    if (name === 'params') {
+      params = { ...params, ...readParams(value) };
+    } else if (name === 'format') {
+      if (value !== 'csv' && value !== 'json') fail(`Unknown format: ${value}`);
+      format = value;
+    } else if (name === 'out') {
+      out = value;
+    } else {
+      const key = name.replace(/-([a-z])/g, (_, c: string) => c.toUpperCase());
+      if (!(key in defaultParameters)) fail(`Unknown parameter: ${flag}`);
+      overrides = { ...overrides, ...parseValue(flag, key, value) };
+    }
+  }
+
+  // Flags win over the params file regardless of their order
+  params = { ...params, ...overrides };
+  return { params, format, out };
+}
+
+const { params, format, out } = parseArgs(process.argv.slice(2));
+const traces = calculateAllTraces(calculateMotionProfile(params), params);
+const output = format === 'json' ? tracesToJson(traces, params) : tracesToCsv(traces, params);
+
+if (out) {
+  writeFileSync(out, output);
+} else {
+  process.stdout.write(output);
+}
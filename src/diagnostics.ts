@@ -0,0 +1,173 @@
+import {
+  MotionParameters,
+  MotionPlan,
+  calculateMotionPlan,
+  generateBlock,
+  isDegenerateBlock,
+  motionBlocks,
+  storeBlock,
+} from './profile.js';
+import { machineEpsilon, rounding } from './arithmetic.js';
+
+export type DiagnosticCheck =
+  | 'degenerate'
+  | 'finite'
+  | 'start-position'
+  | 'endpoint'
+  | 'start-velocity'
+  | 'end-velocity'
+  | 'distance'
+  | 'jerk';
+
+export interface Diagnostic {
+  check: DiagnosticCheck;
+  block: number | null; // index into motionBlocks(params), null for checks on the whole plan
+  message: string;
+}
+
+// Invariants of one generated block, in mm of travel
+export interface BlockDiagnostics {
+  degenerate: boolean; // not planned, all other values are 0
+  startError: number; // mm, first sample minus 0
+  endError: number; // mm, position at the end of the block minus the commanded distance
+  startVelocityError: number; // mm/s, first sample interval minus the entry speed
+  endVelocityError: number; // mm/s, last sample interval minus the exit speed
+  peakJerk: number; // mm/s³, largest third difference of the samples
+  jerkLimit: number | null; // mm/s³, bound the generator promises, null when it has none
+}
+
+export interface MotionDiagnostics {
+  blocks: BlockDiagnostics[];
+  distanceError: number; // mm of filament, last generated sample minus the sum of the planned blocks
+  violations: Diagnostic[];
+}
+
+// Peak acceleration of each generator relative to the block acceleration
+const accelerationFactor = (params: MotionParameters) =>
+  params.trajectory === '6poly' ? params.accOvershoot : params.trajectory === 'bezier' ? 1.875 : 1;
+
+// Largest |jerk| of the Bezier speed curve v0 + (v1 - v0) * (10u³ - 15u⁴ + 6u⁵) over Ts, at u = 1/2 - 1/(2√3)
+const bezierJerk = (speedChange: number, Ts: number) => (Ts > 0 ? ((10 / Math.sqrt(3)) * speedChange) / (Ts * Ts) : 0);
+
+const format = (value: number) => value.toPrecision(3);
+
+// Checks every block the generators produce against what was commanded: it starts at 0 with the entry speed, ends
+// at the block distance with the exit speed, and stays within the jerk the trajectory type promises. The whole
+// plan has to add up to the planned distance before the closing sample moves it there. Tolerances scale with the rounding error of params.arithmetic and,
+// for the speeds, with the speed change a single sample allows.
+export function diagnoseMotion(
+  params: MotionParameters,
+  plan: MotionPlan = calculateMotionPlan(params)
+): MotionDiagnostics {
+  const round = rounding(params.arithmetic);
+  const eps = machineEpsilon(params.arithmetic);
+  const dt = round(1 / params.ftmFs);
+  const violations: Diagnostic[] = [];
+  const blocks: BlockDiagnostics[] = [];
+  let plannedDistance = 0;
+  let distanceScale = 0;
+  let gridTolerance = 0;
+
+  motionBlocks(params).forEach((block, index) => {
+    const stored = storeBlock(block, params);
+    const { distance, rate, acceleration, deceleration, entrySpeed, exitSpeed } = stored;
+    const report = (check: DiagnosticCheck, message: string) =>
+      violations.push({ check, block: index, message: `Block ${index + 1}: ${message}` });
+    const diagnostics: BlockDiagnostics = {
+      degenerate: isDegenerateBlock(stored, params),
+      startError: 0,
+      endError: 0,
+      startVelocityError: 0,
+      endVelocityError: 0,
+      peakJerk: 0,
+      jerkLimit: null,
+    };
+    blocks.push(diagnostics);
+    if (diagnostics.degenerate) {
+      // Empty blocks are harmless, anything else is dropped from the plan
+      if (distance !== 0) {
+        const jerk = params.trajectory === 'scurve' ? `, ${format(params.jerk)} mm/s³` : '';
+        report(
+          'degenerate',
+          `${format(distance)} mm at ${format(rate)} mm/s, ${format(acceleration)}/${format(deceleration)} mm/s²` +
+            `${jerk} cannot be planned and is skipped`
+        );
+      }
+      return;
+    }
+    plannedDistance += distance * stored.filamentPerMm;
+    distanceScale += Math.abs(distance * stored.filamentPerMm);
+
+    // From the start of the block, then the last two samples on a grid that ends exactly at its end
+    const { positions, timings } = generateBlock(stored, params, 0);
+    const { T1, T2, T3, nominal_speed } = timings;
+    const totalTime = round(round(T1 + T2) + T3);
+    const end = generateBlock(stored, params, totalTime).positions;
+    const beforeEnd = generateBlock(stored, params, Math.max(round(totalTime - dt), 0)).positions;
+    const peakAcceleration = Math.max(acceleration, deceleration) * accelerationFactor(params);
+    const positionTolerance = 64 * eps * (distance + nominal_speed * totalTime);
+    const velocityTolerance = peakAcceleration * dt + (4 * eps * distance) / dt;
+    // The last sample of the plan lands up to one sample interval before the end of its last block
+    gridTolerance = (exitSpeed + peakAcceleration * dt) * dt * stored.filamentPerMm;
+    // Any comparison with NaN is false, so NaN timings would otherwise pass every check below
+    const values = [T1, T2, T3, nominal_speed, positionTolerance, velocityTolerance, ...positions, ...end];
+    if (positions.length === 0 || end.length === 0 || !values.concat(beforeEnd).every(Number.isFinite)) {
+      report('finite', 'the generator produced no samples or non-finite timings or positions');
+      return;
+    }
+
+    diagnostics.startError = positions[0] ?? 0;
+    if (Math.abs(diagnostics.startError) > positionTolerance) {
+      report('start-position', `starts at ${format(diagnostics.startError)} mm instead of 0`);
+    }
+    diagnostics.endError = (end[0] ?? 0) - distance;
+    if (Math.abs(diagnostics.endError) > positionTolerance) {
+      report('endpoint', `ends ${format(diagnostics.endError)} mm from its ${format(distance)} mm`);
+    }
+    if (positions.length > 1) {
+      diagnostics.startVelocityError = (positions[1] - positions[0]) / dt - entrySpeed;
+      if (Math.abs(diagnostics.startVelocityError) > velocityTolerance) {
+        report('start-velocity', `starts ${format(diagnostics.startVelocityError)} mm/s off its entry speed`);
+      }
+    }
+    if (totalTime >= dt && end.length > 0 && beforeEnd.length > 0) {
+      diagnostics.endVelocityError = (end[0] - beforeEnd[0]) / dt - exitSpeed;
+      if (Math.abs(diagnostics.endVelocityError) > velocityTolerance) {
+        report('end-velocity', `ends ${format(diagnostics.endVelocityError)} mm/s off its exit speed`);
+      }
+    }
+
+    for (let i = 3; i < positions.length; i++) {
+      const thirdDifference = positions[i] - 3 * positions[i - 1] + 3 * positions[i - 2] - positions[i - 3];
+      diagnostics.peakJerk = Math.max(diagnostics.peakJerk, Math.abs(thirdDifference) / (dt * dt * dt));
+    }
+    if (params.trajectory === 'scurve') {
+      diagnostics.jerkLimit = params.jerk;
+    } else if (params.trajectory === 'bezier') {
+      diagnostics.jerkLimit = Math.max(
+        bezierJerk(nominal_speed - entrySpeed, T1),
+        bezierJerk(nominal_speed - exitSpeed, T3)
+      );
+    }
+    // A third difference adds up the rounding error of four samples
+    const positionScale = positions.reduce((peak, p) => Math.max(peak, Math.abs(p)), 0);
+    const jerkNoise = (8 * eps * positionScale) / (dt * dt * dt);
+    if (diagnostics.jerkLimit !== null && diagnostics.peakJerk > diagnostics.jerkLimit * 1.01 + jerkNoise) {
+      report(
+        'jerk',
+        `peak jerk ${format(diagnostics.peakJerk)} mm/s³ exceeds the ${format(diagnostics.jerkLimit)} mm/s³ bound`
+      );
+    }
+  });
+
+  const distanceError = plan.generatedEnd - plannedDistance;
+  if (Math.abs(distanceError) > 64 * eps * distanceScale * Math.max(blocks.length, 1) + gridTolerance) {
+    violations.push({
+      check: 'distance',
+      block: null,
+      message: `The plan ends ${format(distanceError)} mm of filament from the ${format(plannedDistance)} mm planned`,
+    });
+  }
+
+  return { blocks, distanceError, violations };
+}
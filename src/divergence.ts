@@ -0,0 +1,37 @@
+import { MotionParameters, calculateMotionProfile } from './profile.js';
+import { Traces, calculateAllTraces, extent } from './traces.js';
+
+// Emulated arithmetic minus the float64 reference, sample by sample
+export interface ArithmeticDivergence {
+  planned: Float64Array; // mm
+  withAdvance: Float64Array; // mm
+  maxPlanned: number; // mm, largest absolute difference
+  maxWithAdvance: number; // mm
+  endError: number; // mm, final planned position
+  sampleDifference: number; // samples the emulated run has more than the reference, from the accumulated time
+}
+
+const difference = (values: Float64Array, reference: Float64Array) =>
+  values.subarray(0, Math.min(values.length, reference.length)).map((v, i) => v - reference[i]);
+
+const peakAbs = (values: Float64Array) => {
+  const { min, max } = extent(values);
+  return values.length > 0 ? Math.max(Math.abs(min), Math.abs(max)) : 0;
+};
+
+// Compares traces computed with params.arithmetic against a float64 run of the same parameters
+export function arithmeticDivergence(traces: Traces, params: MotionParameters): ArithmeticDivergence {
+  const referenceParams: MotionParameters = { ...params, arithmetic: 'float64' };
+  const reference = calculateAllTraces(calculateMotionProfile(referenceParams), referenceParams);
+  const planned = difference(traces.position[0], reference.position[0]);
+  const withAdvance = difference(traces.position[1], reference.position[1]);
+  const last = (values: Float64Array) => values[values.length - 1];
+  return {
+    planned,
+    withAdvance,
+    maxPlanned: peakAbs(planned),
+    maxWithAdvance: peakAbs(withAdvance),
+    endError: last(traces.position[0]) - last(reference.position[0]),
+    sampleDifference: traces.position[0].length - reference.position[0].length,
+  };
+}
@@ -0,0 +1,112 @@
+import { MotionParameters } from './profile.js';
+import { ArithmeticDivergence } from './divergence.js';
+
+// Difference between the emulated MCU arithmetic and the float64 reference, for the planned and
+// with-advance extruder positions
+export class DivergencePlot {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private params: MotionParameters | null = null;
+  private divergence: ArithmeticDivergence | null = null;
+
+  constructor(canvasId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+    window.addEventListener('resize', () => this.draw());
+  }
+
+  update(divergence: ArithmeticDivergence, params: MotionParameters): void {
+    this.params = params;
+    this.divergence = divergence;
+    this.draw();
+  }
+
+  draw(): void {
+    if (!this.divergence || !this.params || this.canvas.offsetParent === null) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.canvas.width = rect.width * window.devicePixelRatio;
+    this.canvas.height = rect.height * window.devicePixelRatio;
+    this.ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0);
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const { ftmFs, arithmetic } = this.params;
+    const divergence = this.divergence;
+    const plotHeight = rect.height / 2;
+    const panels = [
+      { values: divergence.planned, peak: divergence.maxPlanned, label: 'Planned divergence (µm)' },
+      { values: divergence.withAdvance, peak: divergence.maxWithAdvance, label: 'With advance divergence (µm)' },
+    ];
+
+    panels.forEach(({ values, peak, label }, plotIndex) => {
+      const yOffset = plotIndex * plotHeight;
+      const range = Math.max(peak * 1000, 1e-6) * 1.1; // µm
+      const y = (value: number) => yOffset + 20 + ((range - value * 1000) / (2 * range)) * (plotHeight - 40);
+      const x = (i: number) => 50 + (i / Math.max(values.length - 1, 1)) * (rect.width - 100);
+
+      this.drawAxes(rect.width, yOffset, plotHeight, values.length / ftmFs, label);
+
+      this.ctx.strokeStyle = 'blue';
+      this.ctx.lineWidth = 1;
+      this.ctx.beginPath();
+      values.forEach((value, i) => {
+        if (i === 0) {
+          this.ctx.moveTo(x(i), y(value));
+        } else {
+          this.ctx.lineTo(x(i), y(value));
+        }
+      });
+      this.ctx.stroke();
+
+      this.ctx.font = '10px Arial';
+      this.ctx.textAlign = 'right';
+      this.ctx.fillStyle = '#333';
+      this.ctx.fillText(
+        `${arithmetic} vs float64: max ${(peak * 1000).toPrecision(3)} µm`,
+        rect.width - 50,
+        yOffset + 30
+      );
+      this.ctx.textAlign = 'left';
+    });
+
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.fillStyle = divergence.sampleDifference !== 0 ? 'red' : 'gray';
+    this.ctx.fillText(
+      `End position ${(divergence.endError * 1000).toPrecision(3)} µm, ` +
+        `${divergence.sampleDifference >= 0 ? '+' : ''}${divergence.sampleDifference} samples`,
+      rect.width - 50,
+      40
+    );
+    this.ctx.textAlign = 'left';
+  }
+
+  private drawAxes(width: number, yOffset: number, plotHeight: number, duration: number, label: string): void {
+    this.ctx.strokeStyle = '#333';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(50, yOffset + 20);
+    this.ctx.lineTo(50, yOffset + plotHeight - 20);
+    this.ctx.lineTo(width - 50, yOffset + plotHeight - 20);
+    this.ctx.stroke();
+
+    // Zero line
+    this.ctx.strokeStyle = '#ccc';
+    this.ctx.beginPath();
+    this.ctx.moveTo(50, yOffset + plotHeight / 2);
+    this.ctx.lineTo(width - 50, yOffset + plotHeight / 2);
+    this.ctx.stroke();
+
+    this.ctx.font = '10px Arial';
+    this.ctx.fillStyle = '#333';
+    this.ctx.textAlign = 'center';
+    const durationMs = duration * 1000;
+    const step = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000].find((s) => durationMs / s <= 10) ?? 2000;
+    for (let ms = 0; ms <= durationMs; ms += step) {
+      this.ctx.fillText(`${ms} ms`, 50 + (ms / durationMs) * (width - 100), yOffset + plotHeight - 8);
+    }
+    this.ctx.textAlign = 'left';
+
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText(label, 45, yOffset + 15);
+  }
+}
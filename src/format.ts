@@ -0,0 +1,59 @@
+import { MotionParameters } from './profile.js';
+import { Traces } from './traces.js';
+import { calculateMetrics } from './metrics.js';
+import { arithmeticDivergence } from './divergence.js';
+import { diagnoseMotion } from './diagnostics.js';
+
+const levels = ['position', 'velocity', 'acceleration'] as const;
+
+const columnName = (label: string, level: string) => `${label.toLowerCase().replace(/\s+/g, '_')}_${level}`;
+
+// One row per FTM sample, one column per trace, aligned in time; cells without a value are empty.
+// The parameter set is written as '#' comment lines above the header.
+export function tracesToCsv(traces: Traces, params: MotionParameters): string {
+  const dt = 1 / params.ftmFs;
+  const columns = levels.flatMap((level) =>
+    traces[level].map((trace, i) => ({
+      name: columnName(traces.labels[i], level),
+      trace,
+      offset: traces.offsets[i],
+    }))
+  );
+  const rows = Math.max(...columns.map(({ trace, offset }) => trace.length + offset));
+
+  const lines = Object.entries(params)
+    .filter(([key]) => key !== 'blocks')
+    .map(([key, value]) => `# ${key}: ${value}`);
+  if (params.blocks) lines.push(`# blocks: ${JSON.stringify(params.blocks)}`);
+  lines.push(['time', ...columns.map(({ name }) => name)].join(','));
+  for (let i = 0; i < rows; i++) {
+    const cells = columns.map(({ trace, offset }) => trace[i - offset]?.toString() ?? '');
+    lines.push([(i * dt).toFixed(6), ...cells].join(','));
+  }
+  return lines.join('\n') + '\n';
+}
+
+export function tracesToJson(traces: Traces, params: MotionParameters): string {
+  const data = Object.fromEntries(
+    traces.labels.map((label, i) => [
+      label,
+      {
+        offset: traces.offsets[i],
+        ...Object.fromEntries(levels.map((level) => [level, Array.from(traces[level][i])])),
+      },
+    ])
+  );
+  const metrics = calculateMetrics(traces, params);
+  // Emulated arithmetic also reports how far it ends up from the float64 reference
+  let divergence;
+  if (params.arithmetic !== 'float64') {
+    const { maxPlanned, maxWithAdvance, endError, sampleDifference } = arithmeticDivergence(traces, params);
+    divergence = { maxPlanned, maxWithAdvance, endError, sampleDifference };
+  }
+  // Invariant checks of the generated blocks, with the per-block values left out
+  const { distanceError, violations } = diagnoseMotion(params);
+  const diagnostics = { distanceError, violations };
+  return (
+    JSON.stringify({ params, dt: 1 / params.ftmFs, metrics, divergence, diagnostics, traces: data }, null, 2) + '\n'
+  );
+}
@@ -0,0 +1,100 @@
+import { MotionBlock } from './profile.js';
+import { PlannerMove, planBlocks } from './planner.js';
+
+export interface GcodeDefaults {
+  rate: number; // mm/s, used until the first F word
+  acceleration: number; // mm/s², used until the first M204
+}
+
+export interface GcodeProgram {
+  blocks: MotionBlock[];
+  k?: number; // last M900 K, if any
+}
+
+export type Words = Record<string, number>;
+
+export function parseWords(line: string): { command: string; words: Words } | null {
+  // Strip ';' and '(...)' comments
+  const code = line
+    .replace(/;.*$/, '')
+    .replace(/\([^)]*\)/g, '')
+    .trim()
+    .toUpperCase();
+  const commandMatch = code.match(/^([GM])\s*(\d+)/);
+  if (!commandMatch) return null;
+  const words: Words = {};
+  for (const [, letter, value] of code.slice(commandMatch[0].length).matchAll(/([A-Z])\s*([-+]?\d*\.?\d+)/g)) {
+    words[letter] = parseFloat(value);
+  }
+  return { command: commandMatch[1] + parseInt(commandMatch[2]), words };
+}
+
+// Reads G0/G1 moves (X/Y/Z/E/F), G90/G91, M82/M83, G92, M204 and M900 K, and plans them into blocks
+export function parseGcode(text: string, defaults: GcodeDefaults): GcodeProgram {
+  const position = { X: 0, Y: 0, Z: 0, E: 0 };
+  let absolute = true;
+  let absoluteE = true;
+  let rate = defaults.rate;
+  let printAcceleration = defaults.acceleration;
+  let travelAcceleration = defaults.acceleration;
+  let retractAcceleration = defaults.acceleration;
+  let k: number | undefined;
+  const moves: PlannerMove[] = [];
+
+  for (const line of text.split(/\r?\n/)) {
+    const parsed = parseWords(line);
+    if (!parsed) continue;
+    const { command, words } = parsed;
+
+    switch (command) {
+      case 'G0':
+      case 'G1': {
+        if (words.F !== undefined) rate = words.F / 60;
+        const target = { ...position };
+        for (const axis of ['X', 'Y', 'Z'] as const) {
+          if (words[axis] !== undefined) target[axis] = absolute ? words[axis] : position[axis] + words[axis];
+        }
+        if (words.E !== undefined) target.E = absoluteE ? words.E : position.E + words.E;
+
+        const axes: [number, number, number] = [target.X - position.X, target.Y - position.Y, target.Z - position.Z];
+        const extrusion = target.E - position.E;
+        const isTravel = Math.hypot(...axes) > 0;
+        let acceleration = travelAcceleration;
+        if (extrusion !== 0) acceleration = isTravel ? printAcceleration : retractAcceleration;
+        moves.push({ axes, extrusion, rate, acceleration });
+        Object.assign(position, target);
+        break;
+      }
+      case 'G90':
+        absolute = true;
+        absoluteE = true;
+        break;
+      case 'G91':
+        absolute = false;
+        absoluteE = false;
+        break;
+      case 'M82':
+        absoluteE = true;
+        break;
+      case 'M83':
+        absoluteE = false;
+        break;
+      case 'G92':
+        for (const axis of ['X', 'Y', 'Z', 'E'] as const) {
+          if (words[axis] !== undefined) position[axis] = words[axis];
+        }
+        break;
+      case 'M204':
+        if (words.S !== undefined) printAcceleration = travelAcceleration = words.S;
+        if (words.P !== undefined) printAcceleration = words.P;
+        if (words.T !== undefined) travelAcceleration = words.T;
+        if (words.R !== undefined) retractAcceleration = words.R;
+        break;
+      case 'M900':
+        if (words.K !== undefined) k = words.K;
+        break;
+    }
+  }
+
+  return { blocks: planBlocks(moves), k };
+}
@@ -0,0 +1,104 @@
+export interface HeatmapOptions {
+  xLabel: string;
+  yLabel: string;
+  marker?: { x: number; y: number }; // cell indexes to outline
+}
+
+// Plot area margins in CSS pixels
+const margin = { left: 45, right: 10, top: 10, bottom: 30 };
+
+// Viridis-like color stops, from low (good) to high cost
+const colorStops = [
+  [68, 1, 84],
+  [59, 82, 139],
+  [33, 145, 140],
+  [94, 201, 98],
+  [253, 231, 37],
+];
+
+function color(t: number): string {
+  if (!isFinite(t)) return '#ccc';
+  const x = Math.min(Math.max(t, 0), 1) * (colorStops.length - 1);
+  const i = Math.min(Math.floor(x), colorStops.length - 2);
+  const f = x - i;
+  const [r, g, b] = colorStops[i].map((c, j) => Math.round(c + (colorStops[i + 1][j] - c) * f));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+const formatTick = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toPrecision(3));
+
+// Draws values[y][x] as colored cells, low values dark
+export function drawHeatmap(
+  canvas: HTMLCanvasElement,
+  xValues: number[],
+  yValues: number[],
+  values: number[][],
+  options: HeatmapOptions
+): void {
+  const rect = canvas.getBoundingClientRect();
+  canvas.width = rect.width * window.devicePixelRatio;
+  canvas.height = rect.height * window.devicePixelRatio;
+  const ctx = canvas.getContext('2d')!;
+  ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0);
+  ctx.clearRect(0, 0, rect.width, rect.height);
+
+  const finite = values.flat().filter(isFinite);
+  const min = Math.min(...finite);
+  const max = Math.max(...finite);
+  const range = max - min || 1;
+
+  const plotWidth = rect.width - margin.left - margin.right;
+  const plotHeight = rect.height - margin.top - margin.bottom;
+  const cellWidth = plotWidth / xValues.length;
+  const cellHeight = plotHeight / yValues.length;
+  const cellX = (x: number) => margin.left + x * cellWidth;
+  // First row at the bottom
+  const cellY = (y: number) => margin.top + (yValues.length - 1 - y) * cellHeight;
+
+  values.forEach((row, y) =>
+    row.forEach((value, x) => {
+      ctx.fillStyle = color((value - min) / range);
+      ctx.fillRect(cellX(x), cellY(y), Math.ceil(cellWidth), Math.ceil(cellHeight));
+    })
+  );
+
+  if (options.marker) {
+    ctx.strokeStyle = 'red';
+    ctx.lineWidth = 2;
+    ctx.strokeRect(cellX(options.marker.x), cellY(options.marker.y), cellWidth, cellHeight);
+  }
+
+  ctx.fillStyle = '#333';
+  ctx.font = '10px Arial';
+  ctx.textAlign = 'left';
+  ctx.fillText(formatTick(xValues[0]), margin.left, rect.height - margin.bottom + 12);
+  ctx.textAlign = 'right';
+  ctx.fillText(formatTick(xValues.at(-1)!), rect.width - margin.right, rect.height - margin.bottom + 12);
+  ctx.fillText(formatTick(yValues[0]), margin.left - 4, rect.height - margin.bottom);
+  ctx.fillText(formatTick(yValues.at(-1)!), margin.left - 4, margin.top + 8);
+  ctx.textAlign = 'center';
+  ctx.fillText(options.xLabel, margin.left + plotWidth / 2, rect.height - 4);
+  ctx.save();
+  ctx.translate(10, margin.top + plotHeight / 2);
+  ctx.rotate(-Math.PI / 2);
+  ctx.fillText(options.yLabel, 0, 0);
+  ctx.restore();
+  ctx.textAlign = 'left';
+}
+
+// Cell indexes under a point in CSS pixels relative to the canvas, or null outside the plot area
+export function heatmapCellAt(
+  canvas: HTMLCanvasElement,
+  xCount: number,
+  yCount: number,
+  offsetX: number,
+  offsetY: number
+): { x: number; y: number } | null {
+  const rect = canvas.getBoundingClientRect();
+  const plotWidth = rect.width - margin.left - margin.right;
+  const plotHeight = rect.height - margin.top - margin.bottom;
+  const x = Math.floor(((offsetX - margin.left) / plotWidth) * xCount);
+  const y = yCount - 1 - Math.floor(((offsetY - margin.top) / plotHeight) * yCount);
+  if (x < 0 || x >= xCount || y < 0 || y >= yCount) return null;
+  return { x, y };
+}
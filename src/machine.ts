@@ -0,0 +1,82 @@
+import { MotionParameters, filamentArea } from './profile.js';
+import { Traces } from './traces.js';
+import { maxStepsPerSample, simulateSteps } from './steps.js';
+
+// Machine/material limits the extruder signal is checked against
+export type MachineProfile = Pick<
+  MotionParameters,
+  | 'filamentDiameter'
+  | 'maxVolumetricFlow'
+  | 'maxExtruderFeedrate'
+  | 'maxExtruderAcceleration'
+  | 'maxExtruderJerk'
+  | 'extruderStepsPerMm'
+  | 'stepperIsrFrequency'
+  | 'ftmFs'
+>;
+
+export type ExtruderLimit = 'volumetricFlow' | 'feedrate' | 'acceleration' | 'jerk' | 'stepRate';
+
+// A contiguous span of with-advance samples over a limit
+export interface LimitViolation {
+  limit: ExtruderLimit;
+  start: number; // first sample index in the with-advance trace
+  end: number; // last sample index, inclusive
+  peak: number; // largest absolute value within the span, in the limit's unit
+  max: number; // the limit
+}
+
+export const limitDescriptions: Record<ExtruderLimit, { label: string; unit: string }> = {
+  volumetricFlow: { label: 'Max volumetric flow', unit: 'mm³/s' },
+  feedrate: { label: 'Max extruder feedrate', unit: 'mm/s' },
+  acceleration: { label: 'Max extruder acceleration', unit: 'mm/s²' },
+  jerk: { label: 'Max extruder jerk', unit: 'mm/s' },
+  stepRate: { label: 'Max stepper ISR step rate', unit: 'steps/s' },
+};
+
+function spansOver(values: Float64Array, max: number, limit: ExtruderLimit): LimitViolation[] {
+  const violations: LimitViolation[] = [];
+  let current: LimitViolation | null = null;
+  values.forEach((value, i) => {
+    const magnitude = Math.abs(value);
+    if (magnitude > max) {
+      if (!current) {
+        current = { limit, start: i, end: i, peak: magnitude, max };
+        violations.push(current);
+      }
+      current.end = i;
+      current.peak = Math.max(current.peak, magnitude);
+    } else {
+      current = null;
+    }
+  });
+  return violations;
+}
+
+// Spans where the with-advance extruder signal is not physically achievable on the given machine
+export function findLimitViolations(traces: Traces, machine: MachineProfile): LimitViolation[] {
+  const velWithAdvance = traces.velocity[1];
+  const accWithAdvance = traces.acceleration[1];
+  const area = filamentArea(machine.filamentDiameter);
+  const speedChange = velWithAdvance.map((v, i) => (i === 0 ? 0 : v - velWithAdvance[i - 1]));
+  const { stepRate } = simulateSteps(
+    traces.position[1],
+    machine.extruderStepsPerMm,
+    machine.ftmFs,
+    machine.stepperIsrFrequency
+  );
+  // Whole steps per sample, so the limit is the ISR frequency rounded down to a multiple of the sample rate
+  const maxStepRate = maxStepsPerSample(machine.stepperIsrFrequency, machine.ftmFs) * machine.ftmFs;
+
+  return [
+    ...spansOver(
+      velWithAdvance.map((v) => v * area),
+      machine.maxVolumetricFlow,
+      'volumetricFlow'
+    ),
+    ...spansOver(velWithAdvance, machine.maxExtruderFeedrate, 'feedrate'),
+    ...spansOver(accWithAdvance, machine.maxExtruderAcceleration, 'acceleration'),
+    ...spansOver(speedChange, machine.maxExtruderJerk, 'jerk'),
+    ...spansOver(stepRate, maxStepRate, 'stepRate'),
+  ];
+}
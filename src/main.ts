@@ -1,73 +1,407 @@
 import { MotionSimulator } from './plotter.js';
-import { MotionParameters } from './profile.js';
+import { MotionBlock, MotionParameters, TrajectoryType, defaultParameters } from './profile.js';
+import { parseGcode } from './gcode.js';
+import { ShaperType } from './shaper.js';
+import { NozzleModelType } from './nozzle.js';
+import { AdvanceAlgorithm } from './advance.js';
+import { Arithmetic } from './arithmetic.js';
+import { Objective, OptimizerResult, SweepRange, defaultOptimizerRanges } from './optimizer.js';
+import { SearchClient } from './search.js';
+import { drawHeatmap, heatmapCellAt } from './heatmap.js';
+import { SweepParameter, SweepResult, sweepParameters } from './sweep.js';
+import { ExtrusionMetrics, metricDescriptions } from './metrics.js';
+import { renderMetricsPanel } from './metricsPanel.js';
+import { SpectrumPlot } from './spectrumPlot.js';
+import { StepPlot } from './stepPlot.js';
+import { BeadPlot } from './beadPlot.js';
+import { DivergencePlot } from './divergencePlot.js';
+import { parsePath, pathBlocks, squarePath } from './path.js';
+import { marlinCommands, parseMarlinConfig } from './marlin.js';
+import {
+  MeasuredSeries,
+  MeasurementFit,
+  analyzeMeasurement,
+  guessColumns,
+  parseMeasurementCsv,
+} from './measurement.js';
+import { loadPresets, paramsFromHash, paramsToHash, presetsFromJson, presetsToJson, savePresets } from './state.js';
+
+function download(filename: string, data: Blob) {
+  const url = URL.createObjectURL(data);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
 
 // Initialize the simulator
 document.addEventListener('DOMContentLoaded', () => {
   const simulator = new MotionSimulator('motion-canvas');
+  const spectrum = new SpectrumPlot('spectrum-canvas');
+  const stepPlot = new StepPlot('steps-canvas');
+  const divergencePlot = new DivergencePlot('divergence-canvas');
+  const beadPlot = new BeadPlot('bead-canvas');
+  const search = new SearchClient();
 
   // Get control elements
   const trajectorySelect = document.getElementById('trajectory') as HTMLSelectElement;
   const distanceSlider = document.getElementById('distance') as HTMLInputElement;
   const rateSlider = document.getElementById('rate') as HTMLInputElement;
   const accelerationSlider = document.getElementById('acceleration') as HTMLInputElement;
+  const decelerationSlider = document.getElementById('deceleration') as HTMLInputElement;
   const overshootSlider = document.getElementById('acc-overshoot') as HTMLInputElement;
+  const jerkSlider = document.getElementById('jerk') as HTMLInputElement;
   const kSlider = document.getElementById('k-factor') as HTMLInputElement;
+  const advanceAlgorithmSelect = document.getElementById('advance-algorithm') as HTMLSelectElement;
+  const paSmoothTimeSlider = document.getElementById('pa-smooth-time') as HTMLInputElement;
+  const paSmoothGroup = document.getElementById('pa-smooth-group')!;
   const lineWidthSlider = document.getElementById('line-width') as HTMLInputElement;
   const layerHeightSlider = document.getElementById('layer-height') as HTMLInputElement;
   const ftmFsSlider = document.getElementById('ftm-fs') as HTMLInputElement;
   const smoothingTimeSlider = document.getElementById('smoothing-time') as HTMLInputElement;
   const ftmSmoothingOrderSlider = document.getElementById('ftm-smoothing-order') as HTMLInputElement;
+  const shaperSelect = document.getElementById('shaper') as HTMLSelectElement;
+  const shaperFrequencySlider = document.getElementById('shaper-frequency') as HTMLInputElement;
+  const shaperDampingSlider = document.getElementById('shaper-damping') as HTMLInputElement;
+  const shaperStageSelect = document.getElementById('shaper-stage') as HTMLSelectElement;
+  const arithmeticSelect = document.getElementById('arithmetic') as HTMLSelectElement;
+  const nozzleModelSelect = document.getElementById('nozzle-model') as HTMLSelectElement;
+  const pressureTauSlider = document.getElementById('pressure-tau') as HTMLInputElement;
+  const bowdenFrequencySlider = document.getElementById('bowden-frequency') as HTMLInputElement;
+  const bowdenDampingSlider = document.getElementById('bowden-damping') as HTMLInputElement;
+  const meltFlowIndexSlider = document.getElementById('melt-flow-index') as HTMLInputElement;
+  const filamentDiameterSlider = document.getElementById('filament-diameter') as HTMLInputElement;
+  const maxVolumetricFlowSlider = document.getElementById('max-volumetric-flow') as HTMLInputElement;
+  const maxEFeedrateSlider = document.getElementById('max-e-feedrate') as HTMLInputElement;
+  const maxEAccelerationSlider = document.getElementById('max-e-acceleration') as HTMLInputElement;
+  const maxEJerkSlider = document.getElementById('max-e-jerk') as HTMLInputElement;
+  const eStepsSlider = document.getElementById('e-steps') as HTMLInputElement;
+  const stepperIsrSlider = document.getElementById('stepper-isr') as HTMLInputElement;
+  const unretractLengthSlider = document.getElementById('unretract-length') as HTMLInputElement;
+  const unretractSpeedSlider = document.getElementById('unretract-speed') as HTMLInputElement;
+  const unretractAccelerationSlider = document.getElementById('unretract-acceleration') as HTMLInputElement;
+  const retractLengthSlider = document.getElementById('retract-length') as HTMLInputElement;
+  const retractSpeedSlider = document.getElementById('retract-speed') as HTMLInputElement;
+  const retractAccelerationSlider = document.getElementById('retract-acceleration') as HTMLInputElement;
   const overshootGroup = document.getElementById('overshoot-group')!;
+  const jerkGroup = document.getElementById('jerk-group')!;
+  const shaperGroup = document.getElementById('shaper-group')!;
+  const nozzleGroup = document.getElementById('nozzle-group')!;
+  const gcodeInput = document.getElementById('gcode') as HTMLTextAreaElement;
+  const gcodeFile = document.getElementById('gcode-file') as HTMLInputElement;
+  const gcodeLoadButton = document.getElementById('gcode-load') as HTMLButtonElement;
+  const gcodeSimulateButton = document.getElementById('gcode-simulate') as HTMLButtonElement;
+  const gcodeClearButton = document.getElementById('gcode-clear') as HTMLButtonElement;
+  const gcodeStatus = document.getElementById('gcode-status')!;
+  const marlinInput = document.getElementById('marlin') as HTMLTextAreaElement;
+  const marlinImportButton = document.getElementById('marlin-import') as HTMLButtonElement;
+  const marlinExportButton = document.getElementById('marlin-export') as HTMLButtonElement;
+  const marlinCopyButton = document.getElementById('marlin-copy') as HTMLButtonElement;
+  const marlinStatus = document.getElementById('marlin-status')!;
+  const pathInput = document.getElementById('path') as HTMLTextAreaElement;
+  const pathSquareButton = document.getElementById('path-square') as HTMLButtonElement;
+  const pathSimulateButton = document.getElementById('path-simulate') as HTMLButtonElement;
+  const pathClearButton = document.getElementById('path-clear') as HTMLButtonElement;
+  const pathStatus = document.getElementById('path-status')!;
+  const objectiveSelect = document.getElementById('objective') as HTMLSelectElement;
+  const objectiveWeightSlider = document.getElementById('objective-weight') as HTMLInputElement;
+  const objectiveWeightValue = document.getElementById('objective-weight-value') as HTMLInputElement;
+  const objectiveWeightGroup = document.getElementById('objective-weight-group')!;
+  const optimizeButton = document.getElementById('optimize') as HTMLButtonElement;
+  const optimizeApplyButton = document.getElementById('optimize-apply') as HTMLButtonElement;
+  const optimizeStatus = document.getElementById('optimize-status')!;
+  const optimizerCanvas = document.getElementById('optimizer-canvas') as HTMLCanvasElement;
+  const sweepXSelect = document.getElementById('sweep-x') as HTMLSelectElement;
+  const sweepYSelect = document.getElementById('sweep-y') as HTMLSelectElement;
+  const sweepMetricSelect = document.getElementById('sweep-metric') as HTMLSelectElement;
+  const sweepRunButton = document.getElementById('sweep-run') as HTMLButtonElement;
+  const sweepStatus = document.getElementById('sweep-status')!;
+  const sweepCanvas = document.getElementById('sweep-canvas') as HTMLCanvasElement;
+  const measurementForceSelect = document.getElementById('measurement-force') as HTMLSelectElement;
+  const measurementFilamentSelect = document.getElementById('measurement-filament') as HTMLSelectElement;
+  const measurementLoadButton = document.getElementById('measurement-load') as HTMLButtonElement;
+  const measurementApplyButton = document.getElementById('measurement-apply') as HTMLButtonElement;
+  const measurementClearButton = document.getElementById('measurement-clear') as HTMLButtonElement;
+  const measurementFile = document.getElementById('measurement-file') as HTMLInputElement;
+  const measurementStatus = document.getElementById('measurement-status')!;
+  const metricsPanel = document.getElementById('metrics')!;
+  const presetSelect = document.getElementById('preset') as HTMLSelectElement;
+  const presetNameInput = document.getElementById('preset-name') as HTMLInputElement;
+  const presetLoadButton = document.getElementById('preset-load') as HTMLButtonElement;
+  const presetDeleteButton = document.getElementById('preset-delete') as HTMLButtonElement;
+  const presetSaveButton = document.getElementById('preset-save') as HTMLButtonElement;
+  const presetExportButton = document.getElementById('preset-export') as HTMLButtonElement;
+  const presetImportButton = document.getElementById('preset-import') as HTMLButtonElement;
+  const presetFile = document.getElementById('preset-file') as HTMLInputElement;
+  const shareLinkButton = document.getElementById('share-link') as HTMLButtonElement;
+  const presetStatus = document.getElementById('preset-status')!;
+  const spectrumToggle = document.getElementById('spectrum-toggle') as HTMLInputElement;
+  const spectrumPanel = document.getElementById('spectrum-panel') as HTMLDivElement;
+  const stepsToggle = document.getElementById('steps-toggle') as HTMLInputElement;
+  const stepsPanel = document.getElementById('steps-panel') as HTMLDivElement;
+  const beadToggle = document.getElementById('bead-toggle') as HTMLInputElement;
+  const beadPanel = document.getElementById('bead-panel') as HTMLDivElement;
+  const divergencePanel = document.getElementById('divergence-panel') as HTMLDivElement;
+  const exportSvgButton = document.getElementById('export-svg') as HTMLButtonElement;
+  const exportPngButton = document.getElementById('export-png') as HTMLButtonElement;
+  const exportCsvButton = document.getElementById('export-csv') as HTMLButtonElement;
+  const referencePinButton = document.getElementById('reference-pin') as HTMLButtonElement;
+  const referenceClearButton = document.getElementById('reference-clear') as HTMLButtonElement;
 
   // Get value input elements
   const distanceValue = document.getElementById('distance-value') as HTMLInputElement;
   const rateValue = document.getElementById('rate-value') as HTMLInputElement;
   const accelerationValue = document.getElementById('acceleration-value') as HTMLInputElement;
+  const decelerationValue = document.getElementById('deceleration-value') as HTMLInputElement;
   const overshootValue = document.getElementById('overshoot-value') as HTMLInputElement;
+  const jerkValue = document.getElementById('jerk-value') as HTMLInputElement;
+  const paSmoothTimeValue = document.getElementById('pa-smooth-time-value') as HTMLInputElement;
   const kValue = document.getElementById('k-value') as HTMLInputElement;
   const lineWidthValue = document.getElementById('line-width-value') as HTMLInputElement;
   const layerHeightValue = document.getElementById('layer-height-value') as HTMLInputElement;
   const ftmFsValue = document.getElementById('ftm-fs-value') as HTMLInputElement;
   const smoothingTimeValue = document.getElementById('smoothing-time-value') as HTMLInputElement;
   const ftmSmoothingOrderValue = document.getElementById('ftm-smoothing-order-value') as HTMLInputElement;
+  const shaperFrequencyValue = document.getElementById('shaper-frequency-value') as HTMLInputElement;
+  const shaperDampingValue = document.getElementById('shaper-damping-value') as HTMLInputElement;
+  const pressureTauValue = document.getElementById('pressure-tau-value') as HTMLInputElement;
+  const bowdenFrequencyValue = document.getElementById('bowden-frequency-value') as HTMLInputElement;
+  const bowdenDampingValue = document.getElementById('bowden-damping-value') as HTMLInputElement;
+  const meltFlowIndexValue = document.getElementById('melt-flow-index-value') as HTMLInputElement;
+  const filamentDiameterValue = document.getElementById('filament-diameter-value') as HTMLInputElement;
+  const maxVolumetricFlowValue = document.getElementById('max-volumetric-flow-value') as HTMLInputElement;
+  const maxEFeedrateValue = document.getElementById('max-e-feedrate-value') as HTMLInputElement;
+  const maxEAccelerationValue = document.getElementById('max-e-acceleration-value') as HTMLInputElement;
+  const maxEJerkValue = document.getElementById('max-e-jerk-value') as HTMLInputElement;
+  const eStepsValue = document.getElementById('e-steps-value') as HTMLInputElement;
+  const stepperIsrValue = document.getElementById('stepper-isr-value') as HTMLInputElement;
+  const unretractLengthValue = document.getElementById('unretract-length-value') as HTMLInputElement;
+  const unretractSpeedValue = document.getElementById('unretract-speed-value') as HTMLInputElement;
+  const unretractAccelerationValue = document.getElementById('unretract-acceleration-value') as HTMLInputElement;
+  const retractLengthValue = document.getElementById('retract-length-value') as HTMLInputElement;
+  const retractSpeedValue = document.getElementById('retract-speed-value') as HTMLInputElement;
+  const retractAccelerationValue = document.getElementById('retract-acceleration-value') as HTMLInputElement;
+
+  // Blocks planned from the G-code or path box; replace the single move while set
+  let plannedBlocks: MotionBlock[] | undefined;
 
   function getParams(): MotionParameters {
     return {
-      trajectory: trajectorySelect.value as 'trapezoidal' | '6poly',
+      trajectory: trajectorySelect.value as TrajectoryType,
       distance: parseFloat(distanceSlider.value),
       rate: parseFloat(rateSlider.value),
       acceleration: parseFloat(accelerationSlider.value),
+      deceleration: parseFloat(decelerationSlider.value),
       accOvershoot: parseFloat(overshootSlider.value),
+      jerk: parseFloat(jerkSlider.value),
       k: parseFloat(kSlider.value),
+      advanceAlgorithm: advanceAlgorithmSelect.value as AdvanceAlgorithm,
+      paSmoothTime: parseFloat(paSmoothTimeSlider.value),
       lineWidth: parseFloat(lineWidthSlider.value),
       layerHeight: parseFloat(layerHeightSlider.value),
       ftmFs: parseFloat(ftmFsSlider.value),
       smoothingTime: parseFloat(smoothingTimeSlider.value),
       ftmSmoothingOrder: parseFloat(ftmSmoothingOrderSlider.value),
+      arithmetic: arithmeticSelect.value as Arithmetic,
+      shaper: shaperSelect.value as ShaperType,
+      shaperFrequency: parseFloat(shaperFrequencySlider.value),
+      shaperDamping: parseFloat(shaperDampingSlider.value),
+      shaperStage: shaperStageSelect.value as 'before-smoothing' | 'after-smoothing',
+      nozzleModel: nozzleModelSelect.value as NozzleModelType,
+      pressureTau: parseFloat(pressureTauSlider.value),
+      bowdenFrequency: parseFloat(bowdenFrequencySlider.value),
+      bowdenDamping: parseFloat(bowdenDampingSlider.value),
+      meltFlowIndex: parseFloat(meltFlowIndexSlider.value),
+      filamentDiameter: parseFloat(filamentDiameterSlider.value),
+      maxVolumetricFlow: parseFloat(maxVolumetricFlowSlider.value),
+      maxExtruderFeedrate: parseFloat(maxEFeedrateSlider.value),
+      maxExtruderAcceleration: parseFloat(maxEAccelerationSlider.value),
+      maxExtruderJerk: parseFloat(maxEJerkSlider.value),
+      extruderStepsPerMm: parseFloat(eStepsSlider.value),
+      stepperIsrFrequency: parseFloat(stepperIsrSlider.value),
+      unretractLength: parseFloat(unretractLengthSlider.value),
+      unretractSpeed: parseFloat(unretractSpeedSlider.value),
+      unretractAcceleration: parseFloat(unretractAccelerationSlider.value),
+      retractLength: parseFloat(retractLengthSlider.value),
+      retractSpeed: parseFloat(retractSpeedSlider.value),
+      retractAcceleration: parseFloat(retractAccelerationSlider.value),
+      blocks: plannedBlocks,
     };
   }
 
-  function updateSimulator() {
-    const params = getParams();
-    simulator.updateProfile(params);
+  // Inputs holding each parameter, used to restore a parameter set into the controls
+  const paramInputs: Record<Exclude<keyof MotionParameters, 'blocks'>, HTMLInputElement | HTMLSelectElement> = {
+    trajectory: trajectorySelect,
+    distance: distanceSlider,
+    rate: rateSlider,
+    acceleration: accelerationSlider,
+    deceleration: decelerationSlider,
+    accOvershoot: overshootSlider,
+    jerk: jerkSlider,
+    k: kSlider,
+    advanceAlgorithm: advanceAlgorithmSelect,
+    paSmoothTime: paSmoothTimeSlider,
+    lineWidth: lineWidthSlider,
+    layerHeight: layerHeightSlider,
+    ftmFs: ftmFsSlider,
+    smoothingTime: smoothingTimeSlider,
+    ftmSmoothingOrder: ftmSmoothingOrderSlider,
+    arithmetic: arithmeticSelect,
+    shaper: shaperSelect,
+    shaperFrequency: shaperFrequencySlider,
+    shaperDamping: shaperDampingSlider,
+    shaperStage: shaperStageSelect,
+    nozzleModel: nozzleModelSelect,
+    pressureTau: pressureTauSlider,
+    bowdenFrequency: bowdenFrequencySlider,
+    bowdenDamping: bowdenDampingSlider,
+    meltFlowIndex: meltFlowIndexSlider,
+    filamentDiameter: filamentDiameterSlider,
+    maxVolumetricFlow: maxVolumetricFlowSlider,
+    maxExtruderFeedrate: maxEFeedrateSlider,
+    maxExtruderAcceleration: maxEAccelerationSlider,
+    maxExtruderJerk: maxEJerkSlider,
+    extruderStepsPerMm: eStepsSlider,
+    stepperIsrFrequency: stepperIsrSlider,
+    unretractLength: unretractLengthSlider,
+    unretractSpeed: unretractSpeedSlider,
+    unretractAcceleration: unretractAccelerationSlider,
+    retractLength: retractLengthSlider,
+    retractSpeed: retractSpeedSlider,
+    retractAcceleration: retractAccelerationSlider,
+  };
+
+  // A range input only holds min + n * step, so grids that get loaded into one are built on those values
+  function sliderRange(range: SweepRange, slider: HTMLInputElement): SweepRange {
+    const base = parseFloat(slider.min);
+    const step = parseFloat(slider.step);
+    return {
+      min: base + Math.ceil((range.min - base) / step) * step,
+      max: base + Math.floor((range.max - base) / step) * step,
+      steps: range.steps,
+      step,
+    };
+  }
+
+  // Missing parameters keep their current value
+  function setParams(params: Partial<MotionParameters>) {
+    for (const [key, input] of Object.entries(paramInputs)) {
+      const value = params[key as keyof typeof paramInputs];
+      if (value !== undefined) input.value = value.toString();
+    }
+    if ('blocks' in params) {
+      plannedBlocks = params.blocks;
+      gcodeStatus.textContent = plannedBlocks ? `${plannedBlocks.length} blocks` : '';
+    }
+    updateTrajectoryDisplay();
+    updateAdvanceDisplay();
+    updateShaperDisplay();
+    updateNozzleDisplay();
+    updateArithmeticDisplay();
+    updateDisplays();
+  }
+
+  function updateMetrics() {
+    const metrics = simulator.getMetrics();
+    if (metrics) {
+      renderMetricsPanel(metricsPanel, metrics.current, metrics.reference, metrics.violations, metrics.diagnostics);
+    }
+    updateSpectrum();
+    updateStepPlot();
+    updateBeadPlot();
+    updateDivergencePlot();
+  }
+
+  function updateSpectrum() {
+    const traces = simulator.getTraces();
+    const params = simulator.getCurrentParams();
+    if (spectrumToggle.checked && traces && params) spectrum.update(traces, params);
+  }
+
+  function updateStepPlot() {
+    const traces = simulator.getTraces();
+    const params = simulator.getCurrentParams();
+    if (stepsToggle.checked && traces && params) stepPlot.update(traces, params);
+  }
+
+  function updateDivergencePlot() {
+    const divergence = simulator.getDivergence();
+    const params = simulator.getCurrentParams();
+    if (divergence && params) divergencePlot.update(divergence, params);
+  }
+
+  function updateBeadPlot() {
+    const traces = simulator.getTraces();
+    const params = simulator.getCurrentParams();
+    if (beadToggle.checked && traces && params) beadPlot.update(traces, params);
   }
 
-  function updateProfileOnly() {
+  // Both skip the follow-up work when a newer update overtook them
+  async function updateSimulator() {
     const params = getParams();
-    simulator.updateProfileOnly(params);
+    try {
+      if (!(await simulator.updateProfile(params))) return;
+    } catch (error) {
+      showSimulationFailure(error as Error);
+      return;
+    }
+    updateMetrics();
+    history.replaceState(null, '', '#' + paramsToHash(params));
+  }
+
+  async function updateProfileOnly() {
+    try {
+      if (!(await simulator.updateProfileOnly(getParams()))) return;
+    } catch (error) {
+      showSimulationFailure(error as Error);
+      return;
+    }
+    updateMetrics();
+  }
+
+  // The plots keep the last good run; the panel says why they did not update
+  function showSimulationFailure(error: Error) {
+    const message = document.createElement('div');
+    message.className = 'violation';
+    message.textContent = `Simulation failed: ${error.message}`;
+    metricsPanel.replaceChildren(message);
   }
 
   function updateDisplays() {
     distanceValue.value = distanceSlider.value;
     rateValue.value = rateSlider.value;
     accelerationValue.value = accelerationSlider.value;
+    decelerationValue.value = decelerationSlider.value;
     overshootValue.value = overshootSlider.value;
+    jerkValue.value = jerkSlider.value;
+    paSmoothTimeValue.value = paSmoothTimeSlider.value;
     kValue.value = kSlider.value;
     lineWidthValue.value = lineWidthSlider.value;
     layerHeightValue.value = layerHeightSlider.value;
     ftmFsValue.value = ftmFsSlider.value;
     smoothingTimeValue.value = smoothingTimeSlider.value;
     ftmSmoothingOrderValue.value = ftmSmoothingOrderSlider.value;
+    shaperFrequencyValue.value = shaperFrequencySlider.value;
+    shaperDampingValue.value = shaperDampingSlider.value;
+    pressureTauValue.value = pressureTauSlider.value;
+    bowdenFrequencyValue.value = bowdenFrequencySlider.value;
+    bowdenDampingValue.value = bowdenDampingSlider.value;
+    meltFlowIndexValue.value = meltFlowIndexSlider.value;
+    filamentDiameterValue.value = filamentDiameterSlider.value;
+    maxVolumetricFlowValue.value = maxVolumetricFlowSlider.value;
+    maxEFeedrateValue.value = maxEFeedrateSlider.value;
+    maxEAccelerationValue.value = maxEAccelerationSlider.value;
+    maxEJerkValue.value = maxEJerkSlider.value;
+    eStepsValue.value = eStepsSlider.value;
+    stepperIsrValue.value = stepperIsrSlider.value;
+    unretractLengthValue.value = unretractLengthSlider.value;
+    unretractSpeedValue.value = unretractSpeedSlider.value;
+    unretractAccelerationValue.value = unretractAccelerationSlider.value;
+    retractLengthValue.value = retractLengthSlider.value;
+    retractSpeedValue.value = retractSpeedSlider.value;
+    retractAccelerationValue.value = retractAccelerationSlider.value;
+    objectiveWeightValue.value = objectiveWeightSlider.value;
   }
 
   function updateTrajectoryDisplay() {
@@ -76,25 +410,106 @@ document.addEventListener('DOMContentLoaded', () => {
     } else {
       overshootGroup.classList.add('conditional');
     }
+    if (trajectorySelect.value === 'scurve') {
+      jerkGroup.classList.remove('conditional');
+    } else {
+      jerkGroup.classList.add('conditional');
+    }
+  }
+
+  function updateAdvanceDisplay() {
+    if (advanceAlgorithmSelect.value === 'klipper') {
+      paSmoothGroup.classList.remove('conditional');
+    } else {
+      paSmoothGroup.classList.add('conditional');
+    }
+  }
+
+  function updateShaperDisplay() {
+    if (shaperSelect.value === 'none') {
+      shaperGroup.classList.add('conditional');
+    } else {
+      shaperGroup.classList.remove('conditional');
+    }
+  }
+
+  // The divergence from the float64 reference only exists in the emulated modes
+  function updateArithmeticDisplay() {
+    divergencePanel.classList.toggle('conditional', arithmeticSelect.value === 'float64');
+  }
+
+  function updateNozzleDisplay() {
+    if (nozzleModelSelect.value === 'physical') {
+      nozzleGroup.classList.remove('conditional');
+    } else {
+      nozzleGroup.classList.add('conditional');
+    }
   }
 
   // Add event listeners
+  advanceAlgorithmSelect.addEventListener('change', () => {
+    updateAdvanceDisplay();
+    updateSimulator();
+  });
+
   trajectorySelect.addEventListener('change', () => {
     updateTrajectoryDisplay();
     updateSimulator();
   });
 
+  shaperSelect.addEventListener('change', () => {
+    updateShaperDisplay();
+    updateSimulator();
+  });
+
+  arithmeticSelect.addEventListener('change', () => {
+    updateArithmeticDisplay();
+    updateSimulator();
+  });
+
+  shaperStageSelect.addEventListener('change', () => {
+    updateSimulator();
+  });
+
+  nozzleModelSelect.addEventListener('change', () => {
+    updateNozzleDisplay();
+    updateSimulator();
+  });
+
   [
     distanceSlider,
     rateSlider,
     accelerationSlider,
+    decelerationSlider,
     overshootSlider,
+    jerkSlider,
+    paSmoothTimeSlider,
     kSlider,
     lineWidthSlider,
     layerHeightSlider,
     ftmFsSlider,
     smoothingTimeSlider,
     ftmSmoothingOrderSlider,
+    shaperFrequencySlider,
+    shaperDampingSlider,
+    pressureTauSlider,
+    bowdenFrequencySlider,
+    bowdenDampingSlider,
+    meltFlowIndexSlider,
+    filamentDiameterSlider,
+    maxVolumetricFlowSlider,
+    maxEFeedrateSlider,
+    maxEAccelerationSlider,
+    maxEJerkSlider,
+    eStepsSlider,
+    stepperIsrSlider,
+    unretractLengthSlider,
+    unretractSpeedSlider,
+    unretractAccelerationSlider,
+    retractLengthSlider,
+    retractSpeedSlider,
+    retractAccelerationSlider,
+    objectiveWeightSlider,
   ].forEach((slider) => {
     slider.addEventListener('input', () => {
       updateDisplays();
@@ -110,13 +525,36 @@ document.addEventListener('DOMContentLoaded', () => {
     { input: distanceValue, slider: distanceSlider },
     { input: rateValue, slider: rateSlider },
     { input: accelerationValue, slider: accelerationSlider },
+    { input: decelerationValue, slider: decelerationSlider },
     { input: overshootValue, slider: overshootSlider },
+    { input: jerkValue, slider: jerkSlider },
+    { input: paSmoothTimeValue, slider: paSmoothTimeSlider },
     { input: kValue, slider: kSlider },
     { input: lineWidthValue, slider: lineWidthSlider },
     { input: layerHeightValue, slider: layerHeightSlider },
     { input: ftmFsValue, slider: ftmFsSlider },
     { input: smoothingTimeValue, slider: smoothingTimeSlider },
     { input: ftmSmoothingOrderValue, slider: ftmSmoothingOrderSlider },
+    { input: shaperFrequencyValue, slider: shaperFrequencySlider },
+    { input: shaperDampingValue, slider: shaperDampingSlider },
+    { input: pressureTauValue, slider: pressureTauSlider },
+    { input: bowdenFrequencyValue, slider: bowdenFrequencySlider },
+    { input: bowdenDampingValue, slider: bowdenDampingSlider },
+    { input: meltFlowIndexValue, slider: meltFlowIndexSlider },
+    { input: filamentDiameterValue, slider: filamentDiameterSlider },
+    { input: maxVolumetricFlowValue, slider: maxVolumetricFlowSlider },
+    { input: maxEFeedrateValue, slider: maxEFeedrateSlider },
+    { input: maxEAccelerationValue, slider: maxEAccelerationSlider },
+    { input: maxEJerkValue, slider: maxEJerkSlider },
+    { input: eStepsValue, slider: eStepsSlider },
+    { input: stepperIsrValue, slider: stepperIsrSlider },
+    { input: unretractLengthValue, slider: unretractLengthSlider },
+    { input: unretractSpeedValue, slider: unretractSpeedSlider },
+    { input: unretractAccelerationValue, slider: unretractAccelerationSlider },
+    { input: retractLengthValue, slider: retractLengthSlider },
+    { input: retractSpeedValue, slider: retractSpeedSlider },
+    { input: retractAccelerationValue, slider: retractAccelerationSlider },
+    { input: objectiveWeightValue, slider: objectiveWeightSlider },
   ].forEach(({ input, slider }) => {
     input.addEventListener('input', () => {
       // Update slider value if input is valid
@@ -138,9 +576,397 @@ document.addEventListener('DOMContentLoaded', () => {
     });
   });
 
+  gcodeLoadButton.addEventListener('click', () => gcodeFile.click());
+  gcodeFile.addEventListener('change', async () => {
+    const file = gcodeFile.files?.[0];
+    if (!file) return;
+    gcodeInput.value = await file.text();
+    gcodeFile.value = '';
+    gcodeSimulateButton.click();
+  });
+
+  gcodeSimulateButton.addEventListener('click', () => {
+    const program = parseGcode(gcodeInput.value, {
+      rate: parseFloat(rateSlider.value),
+      acceleration: parseFloat(accelerationSlider.value),
+    });
+    if (program.blocks.length === 0) {
+      plannedBlocks = undefined;
+      gcodeStatus.textContent = 'No moves found';
+    } else {
+      plannedBlocks = program.blocks;
+      const length = program.blocks.reduce((sum, block) => sum + block.distance, 0);
+      gcodeStatus.textContent = `${program.blocks.length} blocks, ${length.toFixed(1)} mm`;
+    }
+    if (program.k !== undefined) kSlider.value = program.k.toString();
+    pathStatus.textContent = '';
+    updateDisplays();
+    updateSimulator();
+  });
+
+  gcodeClearButton.addEventListener('click', () => {
+    plannedBlocks = undefined;
+    gcodeStatus.textContent = '';
+    updateSimulator();
+  });
+
+  marlinImportButton.addEventListener('click', () => {
+    const params = parseMarlinConfig(marlinInput.value);
+    const count = Object.keys(params).length;
+    marlinStatus.textContent = count === 0 ? 'No known settings found' : `Imported ${count} settings`;
+    if (count === 0) return;
+    setParams(params);
+    updateSimulator();
+  });
+
+  marlinExportButton.addEventListener('click', () => {
+    marlinInput.value = marlinCommands(getParams());
+    marlinStatus.textContent = '';
+  });
+
+  marlinCopyButton.addEventListener('click', async () => {
+    try {
+      await navigator.clipboard.writeText(marlinInput.value);
+      marlinStatus.textContent = 'Copied';
+    } catch {
+      marlinStatus.textContent = 'Select the text and copy it';
+    }
+  });
+
+  pathSquareButton.addEventListener('click', () => {
+    const size = parseFloat(distanceSlider.value);
+    pathInput.value = squarePath(size)
+      .map(([x, y]) => `${x}, ${y}`)
+      .join('\n');
+    pathSimulateButton.click();
+  });
+
+  pathSimulateButton.addEventListener('click', () => {
+    const path = parsePath(pathInput.value);
+    const blocks = pathBlocks(path, getParams());
+    gcodeStatus.textContent = '';
+    if (blocks.length === 0) {
+      plannedBlocks = undefined;
+      pathStatus.textContent = 'Need at least two distinct points';
+    } else {
+      plannedBlocks = blocks;
+      const length = blocks.reduce((sum, block) => sum + block.distance, 0);
+      pathStatus.textContent = `${blocks.length} blocks, ${length.toFixed(1)} mm`;
+      if (!beadToggle.checked) {
+        beadToggle.checked = true;
+        beadPanel.classList.remove('conditional');
+      }
+    }
+    updateSimulator();
+  });
+
+  pathClearButton.addEventListener('click', () => {
+    plannedBlocks = undefined;
+    pathStatus.textContent = '';
+    updateSimulator();
+  });
+
+  let optimum: OptimizerResult | undefined;
+
+  objectiveSelect.addEventListener('change', () => {
+    objectiveWeightGroup.classList.toggle('conditional', objectiveSelect.value !== 'weighted');
+  });
+
+  optimizeButton.addEventListener('click', async () => {
+    const params = getParams();
+    // The first-order model lags by tau = K, which the advance term cancels exactly for any K
+    if (params.nozzleModel === 'first-order') {
+      optimizeStatus.textContent = 'The first-order nozzle model fits any K; switch to the physical model to optimize';
+      return;
+    }
+    optimizeButton.disabled = true;
+    optimizeStatus.textContent = 'Optimizing…';
+    try {
+      optimum = await search.optimize(params, {
+        objective: objectiveSelect.value as Objective,
+        weight: parseFloat(objectiveWeightSlider.value),
+        // Searched on the values the sliders hold, so Apply loads the optimum unchanged
+        k: sliderRange(defaultOptimizerRanges.k, kSlider),
+        smoothingTime: sliderRange(defaultOptimizerRanges.smoothingTime, smoothingTimeSlider),
+        accOvershoot: sliderRange(defaultOptimizerRanges.accOvershoot, overshootSlider),
+      });
+    } catch (error) {
+      optimizeStatus.textContent = `Optimization failed: ${(error as Error).message}`;
+      return;
+    } finally {
+      optimizeButton.disabled = false;
+    }
+    const { k, smoothingTime, accOvershoot, cost, surface } = optimum;
+    optimizeStatus.textContent =
+      `K ${k.toFixed(3)}, smoothing ${smoothingTime.toFixed(3)} s` +
+      (params.trajectory === '6poly' ? `, overshoot ${accOvershoot.toFixed(3)}` : '') +
+      `, cost ${cost.toPrecision(3)}`;
+    optimizeApplyButton.disabled = false;
+    optimizerCanvas.classList.remove('conditional');
+    drawHeatmap(optimizerCanvas, surface.k, surface.smoothingTime, surface.cost, {
+      xLabel: 'K',
+      yLabel: 'Smoothing (s)',
+      marker: { x: surface.k.indexOf(k), y: surface.smoothingTime.indexOf(smoothingTime) },
+    });
+  });
+
+  optimizeApplyButton.addEventListener('click', () => {
+    if (!optimum) return;
+    kSlider.value = optimum.k.toString();
+    smoothingTimeSlider.value = optimum.smoothingTime.toString();
+    overshootSlider.value = optimum.accOvershoot.toString();
+    updateDisplays();
+    updateSimulator();
+  });
+
+  let sweepResult: (SweepResult & { x: SweepParameter; y: SweepParameter; metric: keyof ExtrusionMetrics }) | undefined;
+
+  for (const [key, { label }] of Object.entries(sweepParameters)) {
+    sweepXSelect.add(new Option(label, key));
+    sweepYSelect.add(new Option(label, key));
+  }
+  sweepXSelect.value = 'distance';
+  sweepYSelect.value = 'rate';
+  for (const [key, { label }] of Object.entries(metricDescriptions)) {
+    sweepMetricSelect.add(new Option(label, key));
+  }
+  sweepMetricSelect.value = 'peakExtruderAcceleration';
+
+  function drawSweep(marker?: { x: number; y: number }) {
+    if (!sweepResult) return;
+    const { xValues, yValues, values, x, y } = sweepResult;
+    drawHeatmap(sweepCanvas, xValues, yValues, values, {
+      xLabel: sweepParameters[x].label,
+      yLabel: sweepParameters[y].label,
+      marker,
+    });
+  }
+
+  sweepRunButton.addEventListener('click', async () => {
+    const x = sweepXSelect.value as SweepParameter;
+    const y = sweepYSelect.value as SweepParameter;
+    const metric = sweepMetricSelect.value as keyof ExtrusionMetrics;
+    if (x === y) {
+      sweepStatus.textContent = 'Pick two different parameters';
+      return;
+    }
+    const xRange = sliderRange(sweepParameters[x].range, paramInputs[x] as HTMLInputElement);
+    const yRange = sliderRange(sweepParameters[y].range, paramInputs[y] as HTMLInputElement);
+    sweepRunButton.disabled = true;
+    sweepStatus.textContent = 'Sweeping…';
+    try {
+      sweepResult = { ...(await search.sweep(getParams(), x, y, metric, xRange, yRange)), x, y, metric };
+    } catch (error) {
+      sweepStatus.textContent = `Sweep failed: ${(error as Error).message}`;
+      return;
+    } finally {
+      sweepRunButton.disabled = false;
+    }
+    const { label, unit } = metricDescriptions[metric];
+    sweepStatus.textContent = `${label} (${unit}); click a cell to load it`;
+    sweepCanvas.classList.remove('conditional');
+    drawSweep();
+  });
+
+  sweepCanvas.addEventListener('click', (event) => {
+    if (!sweepResult) return;
+    const { xValues, yValues, values, x, y, metric } = sweepResult;
+    const cell = heatmapCellAt(sweepCanvas, xValues.length, yValues.length, event.offsetX, event.offsetY);
+    if (!cell) return;
+    setParams({ [x]: xValues[cell.x], [y]: yValues[cell.y] });
+    updateSimulator();
+    const { unit } = metricDescriptions[metric];
+    sweepStatus.textContent =
+      `${sweepParameters[x].label} ${xValues[cell.x]}, ${sweepParameters[y].label} ` +
+      `${yValues[cell.y]}: ${values[cell.y][cell.x].toPrecision(3)} ${unit}`;
+    drawSweep(cell);
+  });
+
+  let measuredSeries: MeasuredSeries[] = [];
+  let measurementFit: MeasurementFit | null = null;
+
+  // Column choices by index into measuredSeries, '' for none
+  function fillMeasurementSelect(select: HTMLSelectElement, none: string, selected?: MeasuredSeries) {
+    select.replaceChildren(new Option(none, ''));
+    measuredSeries.forEach((series, i) => select.add(new Option(series.label, i.toString())));
+    select.value = selected ? measuredSeries.indexOf(selected).toString() : '';
+  }
+  fillMeasurementSelect(measurementForceSelect, 'No force');
+  fillMeasurementSelect(measurementFilamentSelect, 'No filament');
+
+  // Aligns and fits against the move currently plotted, so load the measurement after setting up the move
+  function updateMeasurement() {
+    const traces = simulator.getTraces();
+    const params = simulator.getCurrentParams();
+    if (!traces || !params || measuredSeries.length === 0) return;
+    const column = (select: HTMLSelectElement) => measuredSeries[parseInt(select.value)];
+    const analysis = analyzeMeasurement(traces, params, {
+      force: column(measurementForceSelect),
+      filament: column(measurementFilamentSelect),
+    });
+    measurementFit = analysis?.fit ?? null;
+    measurementApplyButton.disabled = !measurementFit;
+    simulator.setMeasurement(analysis?.traces ?? null, 1 / params.ftmFs);
+    if (!analysis) {
+      measurementStatus.textContent = 'Pick a force or filament column';
+      return;
+    }
+    const fit = measurementFit;
+    measurementStatus.textContent =
+      `Offset ${(analysis.offset * 1000).toFixed(1)} ms` +
+      (fit
+        ? `, tau ${(fit.pressureTau * 1000).toFixed(1)} ms, K ${fit.k.toFixed(3)}, ` +
+          `${fit.forceGain.toPrecision(3)} N/mm, RMS ${fit.residual.toPrecision(3)} N`
+        : '');
+  }
+
+  measurementLoadButton.addEventListener('click', () => measurementFile.click());
+  measurementFile.addEventListener('change', async () => {
+    const file = measurementFile.files?.[0];
+    if (!file) return;
+    measurementFile.value = '';
+    measuredSeries = parseMeasurementCsv(await file.text());
+    const { force, filament } = guessColumns(measuredSeries);
+    fillMeasurementSelect(measurementForceSelect, 'No force', force);
+    fillMeasurementSelect(measurementFilamentSelect, 'No filament', filament);
+    if (measuredSeries.length === 0) {
+      measurementStatus.textContent = 'No time-stamped columns found';
+      simulator.setMeasurement(null);
+      return;
+    }
+    updateMeasurement();
+  });
+  measurementForceSelect.addEventListener('change', updateMeasurement);
+  measurementFilamentSelect.addEventListener('change', updateMeasurement);
+
+  measurementApplyButton.addEventListener('click', () => {
+    if (!measurementFit) return;
+    setParams({ nozzleModel: 'physical', pressureTau: measurementFit.pressureTau, k: measurementFit.k });
+    updateSimulator();
+  });
+
+  measurementClearButton.addEventListener('click', () => {
+    measuredSeries = [];
+    measurementFit = null;
+    fillMeasurementSelect(measurementForceSelect, 'No force');
+    fillMeasurementSelect(measurementFilamentSelect, 'No filament');
+    measurementApplyButton.disabled = true;
+    measurementStatus.textContent = '';
+    simulator.setMeasurement(null);
+  });
+
+  spectrumToggle.addEventListener('change', () => {
+    spectrumPanel.classList.toggle('conditional', !spectrumToggle.checked);
+    updateSpectrum();
+  });
+
+  stepsToggle.addEventListener('change', () => {
+    stepsPanel.classList.toggle('conditional', !stepsToggle.checked);
+    updateStepPlot();
+  });
+
+  beadToggle.addEventListener('change', () => {
+    beadPanel.classList.toggle('conditional', !beadToggle.checked);
+    updateBeadPlot();
+  });
+
+  exportSvgButton.addEventListener('click', () => {
+    download('ftm-sim.svg', new Blob([simulator.exportSvg()], { type: 'image/svg+xml' }));
+  });
+
+  exportPngButton.addEventListener('click', async () => {
+    download('ftm-sim.png', await simulator.exportPng());
+  });
+
+  exportCsvButton.addEventListener('click', () => {
+    download('ftm-sim.csv', new Blob([simulator.exportCsv()], { type: 'text/csv' }));
+  });
+
+  referencePinButton.addEventListener('click', () => {
+    simulator.pinReference();
+    updateMetrics();
+    referenceClearButton.disabled = !simulator.hasReference();
+  });
+
+  referenceClearButton.addEventListener('click', () => {
+    simulator.clearReference();
+    updateMetrics();
+    referenceClearButton.disabled = true;
+  });
+
+  let presets = loadPresets();
+
+  function updatePresetList() {
+    presetSelect.innerHTML = '';
+    for (const name of Object.keys(presets).sort()) {
+      presetSelect.add(new Option(name, name));
+    }
+  }
+
+  presetLoadButton.addEventListener('click', () => {
+    const preset = presets[presetSelect.value];
+    if (!preset) return;
+    // Presets without blocks are single moves
+    setParams({ ...preset, blocks: preset.blocks });
+    presetNameInput.value = presetSelect.value;
+    updateSimulator();
+  });
+
+  presetSaveButton.addEventListener('click', () => {
+    const name = presetNameInput.value.trim();
+    if (!name) {
+      presetStatus.textContent = 'Enter a preset name';
+      return;
+    }
+    presets[name] = getParams();
+    savePresets(presets);
+    updatePresetList();
+    presetSelect.value = name;
+    presetStatus.textContent = `Saved "${name}"`;
+  });
+
+  presetDeleteButton.addEventListener('click', () => {
+    const name = presetSelect.value;
+    if (!presets[name]) return;
+    delete presets[name];
+    savePresets(presets);
+    updatePresetList();
+    presetStatus.textContent = `Deleted "${name}"`;
+  });
+
+  presetExportButton.addEventListener('click', () => {
+    download('ftm-sim-presets.json', new Blob([presetsToJson(presets)], { type: 'application/json' }));
+  });
+
+  presetImportButton.addEventListener('click', () => presetFile.click());
+  presetFile.addEventListener('change', async () => {
+    const file = presetFile.files?.[0];
+    if (!file) return;
+    presetFile.value = '';
+    try {
+      const imported = presetsFromJson(await file.text());
+      presets = { ...presets, ...imported };
+      savePresets(presets);
+      updatePresetList();
+      presetStatus.textContent = `Imported ${Object.keys(imported).length} presets`;
+    } catch (error) {
+      presetStatus.textContent = `Import failed: ${(error as Error).message}`;
+    }
+  });
+
+  shareLinkButton.addEventListener('click', async () => {
+    history.replaceState(null, '', '#' + paramsToHash(getParams()));
+    try {
+      await navigator.clipboard.writeText(location.href);
+      presetStatus.textContent = 'Link copied';
+    } catch {
+      presetStatus.textContent = 'Copy the link from the address bar';
+    }
+  });
+
   // Initial setup
-  updateTrajectoryDisplay();
-  updateDisplays();
+  updatePresetList();
+  setParams({ ...defaultParameters, ...paramsFromHash(location.hash) });
   updateSimulator();
 
   // Initial update
@@ -0,0 +1,202 @@
+import { MotionParameters, TrajectoryType } from './profile.js';
+import { ShaperType } from './shaper.js';
+import { Words, parseWords } from './gcode.js';
+
+// Marlin's ftMotionShaper_t, by name in Configuration_adv.h and by number in M493
+const marlinShapers: Record<string, ShaperType> = {
+  NONE: 'none',
+  ZV: 'zv',
+  ZVD: 'zvd',
+  ZVDD: 'zvdd',
+  EI: 'ei',
+  MZV: 'mzv',
+};
+const marlinShaperNumbers = ['NONE', 'ZV', 'ZVD', 'ZVDD', 'ZVDDD', 'EI', '2HEI', '3HEI', 'MZV'];
+
+// FTMotion only has the trapezoidal and 6POLY trajectory generators
+const marlinTrajectories: Partial<Record<string, TrajectoryType>> = { TRAPEZOIDAL: 'trapezoidal', POLY6: '6poly' };
+const marlinTrajectoryNumbers = ['TRAPEZOIDAL', 'POLY6'];
+
+// M493 letters, kept in one table since they have changed between Marlin versions
+const m493 = {
+  mode: 'S', // 1 enables FTMotion
+  shaperX: 'X',
+  shaperY: 'Y',
+  frequencyX: 'A',
+  frequencyY: 'B',
+  dampingX: 'I',
+  dampingY: 'J',
+  trajectory: 'T',
+  overshoot: 'O',
+  smoothingTime: 'H',
+  k: 'K',
+} as const;
+
+// Number in a #define value: '1.875f', '(20000)', '{ 80, 80, 400, 500 }' (last entry, the extruder)
+function defineNumber(value: string): number | undefined {
+  const entries = value.replace(/[{}()]/g, '').split(',');
+  const number = parseFloat(entries[entries.length - 1].replace(/f$/i, ''));
+  return isNaN(number) ? undefined : number;
+}
+
+// Active '#define NAME value' lines; commented out ones are skipped
+function parseDefines(text: string): Map<string, string> {
+  const defines = new Map<string, string>();
+  for (const line of text.split(/\r?\n/)) {
+    const match = line.replace(/\/\/.*$/, '').match(/^\s*#define\s+(\w+)\s+(.+?)\s*$/);
+    if (match) defines.set(match[1], match[2]);
+  }
+  return defines;
+}
+
+function paramsFromDefines(defines: Map<string, string>): Partial<MotionParameters> {
+  const params: Partial<MotionParameters> = {};
+  const number = (name: string) => (defines.has(name) ? defineNumber(defines.get(name)!) : undefined);
+  // 'ftMotionShaper_ZV', 'TrajectoryType::POLY6'
+  const name = (define: string) =>
+    defines
+      .get(define)
+      ?.replace(/^(ftMotion\w*?_|\w+::)/, '')
+      .toUpperCase();
+  const set = <K extends keyof MotionParameters>(key: K, value: MotionParameters[K] | undefined) => {
+    if (value !== undefined) params[key] = value;
+  };
+
+  set('ftmFs', number('FTM_FS'));
+  set('stepperIsrFrequency', number('FTM_STEPPER_FS'));
+  set('trajectory', marlinTrajectories[name('FTM_TRAJECTORY_TYPE') ?? '']);
+  set('accOvershoot', number('FTM_POLY6_ACCELERATION_OVERSHOOT'));
+  // The extruder's smoothing time, or the X axis one for configs that only set the axes
+  set('smoothingTime', number('FTM_SMOOTHING_TIME_E') ?? number('FTM_SMOOTHING_TIME_X'));
+  set('ftmSmoothingOrder', number('FTM_SMOOTHING_ORDER'));
+  set('k', number('FTM_LINEAR_ADV_DEFAULT_K') ?? number('ADVANCE_K'));
+  set('shaper', marlinShapers[name('FTM_DEFAULT_SHAPER_X') ?? '']);
+  set('shaperFrequency', number('FTM_SHAPING_DEFAULT_FREQ_X') ?? number('FTM_SHAPING_DEFAULT_X_FREQ'));
+  set('shaperDamping', number('FTM_SHAPING_ZETA_X'));
+  set('acceleration', number('DEFAULT_ACCELERATION'));
+  set('deceleration', number('DEFAULT_ACCELERATION'));
+  set('unretractAcceleration', number('DEFAULT_RETRACT_ACCELERATION'));
+  set('retractAcceleration', number('DEFAULT_RETRACT_ACCELERATION'));
+  set('maxExtruderAcceleration', number('DEFAULT_MAX_ACCELERATION'));
+  set('maxExtruderFeedrate', number('DEFAULT_MAX_FEEDRATE'));
+  set('maxExtruderJerk', number('DEFAULT_EJERK'));
+  set('extruderStepsPerMm', number('DEFAULT_AXIS_STEPS_PER_UNIT'));
+  set('filamentDiameter', number('DEFAULT_NOMINAL_FILAMENT_DIA'));
+  return params;
+}
+
+function paramsFromM493(words: Words): Partial<MotionParameters> {
+  const params: Partial<MotionParameters> = {};
+  const word = (letter: string) => words[letter];
+  if (word(m493.shaperX) !== undefined) {
+    const shaper = marlinShapers[marlinShaperNumbers[word(m493.shaperX)] ?? ''];
+    if (shaper) params.shaper = shaper;
+  }
+  if (word(m493.frequencyX) !== undefined) params.shaperFrequency = word(m493.frequencyX);
+  if (word(m493.dampingX) !== undefined) params.shaperDamping = word(m493.dampingX);
+  if (word(m493.trajectory) !== undefined) {
+    const trajectory = marlinTrajectories[marlinTrajectoryNumbers[word(m493.trajectory)] ?? ''];
+    if (trajectory) params.trajectory = trajectory;
+  }
+  if (word(m493.overshoot) !== undefined) params.accOvershoot = word(m493.overshoot);
+  if (word(m493.smoothingTime) !== undefined) params.smoothingTime = word(m493.smoothingTime);
+  if (word(m493.k) !== undefined) {
+    params.k = word(m493.k);
+    params.advanceAlgorithm = 'ftm';
+  }
+  return params;
+}
+
+// Settings reports ('echo:  M900 K0.22') from M503; later commands override earlier ones
+function paramsFromSettings(text: string): Partial<MotionParameters> {
+  const params: Partial<MotionParameters> = {};
+  for (const line of text.split(/\r?\n/)) {
+    const parsed = parseWords(line.replace(/^\s*echo:\s*/i, ''));
+    if (!parsed) continue;
+    const { command, words } = parsed;
+    switch (command) {
+      case 'M92':
+        if (words.E !== undefined) params.extruderStepsPerMm = words.E;
+        break;
+      case 'M200':
+        if (words.D !== undefined) params.filamentDiameter = words.D;
+        break;
+      case 'M201':
+        if (words.E !== undefined) params.maxExtruderAcceleration = words.E;
+        break;
+      case 'M203':
+        if (words.E !== undefined) params.maxExtruderFeedrate = words.E;
+        break;
+      case 'M204':
+        if (words.S !== undefined) params.acceleration = params.deceleration = words.S;
+        if (words.P !== undefined) params.acceleration = params.deceleration = words.P;
+        if (words.R !== undefined) params.retractAcceleration = params.unretractAcceleration = words.R;
+        break;
+      case 'M205':
+        if (words.E !== undefined) params.maxExtruderJerk = words.E;
+        break;
+      case 'M900':
+        if (words.K !== undefined) {
+          params.k = words.K;
+          params.advanceAlgorithm = 'classic';
+        }
+        break;
+      case 'M493':
+        Object.assign(params, paramsFromM493(words));
+        break;
+    }
+  }
+  return params;
+}
+
+// Reads a pasted Configuration_adv.h / Configuration.h, an M503 dump, or a mix of both
+export function parseMarlinConfig(text: string): Partial<MotionParameters> {
+  return { ...paramsFromDefines(parseDefines(text)), ...paramsFromSettings(text) };
+}
+
+const format = (value: number) => parseFloat(value.toPrecision(6)).toString();
+
+// G-code that puts a printer into the current state, ready to send or to add to a start script
+export function marlinCommands(params: MotionParameters): string {
+  const lines = [`; FTM_FS ${format(params.ftmFs)} and FTM_SMOOTHING_ORDER are compile time settings`];
+
+  const shaper = marlinShaperNumbers.indexOf(
+    Object.keys(marlinShapers).find((name) => marlinShapers[name] === params.shaper)!
+  );
+  const shaping = [`${m493.mode}1`, `${m493.shaperX}${shaper}`, `${m493.shaperY}${shaper}`];
+  if (params.shaper !== 'none') {
+    const frequency = format(params.shaperFrequency);
+    const damping = format(params.shaperDamping);
+    shaping.push(`${m493.frequencyX}${frequency}`, `${m493.frequencyY}${frequency}`);
+    shaping.push(`${m493.dampingX}${damping}`, `${m493.dampingY}${damping}`);
+  }
+  lines.push(`M493 ${shaping.join(' ')}`);
+
+  const trajectory = Object.keys(marlinTrajectories).find((name) => marlinTrajectories[name] === params.trajectory);
+  if (trajectory) {
+    const words = [`${m493.trajectory}${marlinTrajectoryNumbers.indexOf(trajectory)}`];
+    if (params.trajectory === '6poly') words.push(`${m493.overshoot}${format(params.accOvershoot)}`);
+    lines.push(`M493 ${words.join(' ')} ${m493.smoothingTime}${format(params.smoothingTime)}`);
+  } else {
+    lines.push(`; No FTMotion trajectory for '${params.trajectory}', see S_CURVE_ACCELERATION`);
+    lines.push(`M493 ${m493.smoothingTime}${format(params.smoothingTime)}`);
+  }
+
+  switch (params.advanceAlgorithm) {
+    case 'ftm':
+      lines.push(`M493 ${m493.k}${format(params.k)}`);
+      break;
+    case 'classic':
+      lines.push(`M900 K${format(params.k)}`);
+      break;
+    case 'klipper':
+      lines.push(
+        `; Klipper: SET_PRESSURE_ADVANCE ADVANCE=${format(params.k)} SMOOTH_TIME=${format(params.paSmoothTime)}`
+      );
+      break;
+  }
+
+  // Marlin has a single print acceleration; the deceleration is not a separate setting
+  lines.push(`M204 P${format(params.acceleration)} R${format(params.retractAcceleration)}`);
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,251 @@
+import { MotionParameters } from './profile.js';
+import { Traces, advanceOffset, derivate } from './traces.js';
+import { simulatePhysicalNozzle } from './nozzle.js';
+import { evaluateCost, sweepValues } from './optimizer.js';
+
+// One measured column against its own time stamps, time in s
+export interface MeasuredSeries {
+  label: string;
+  time: Float64Array;
+  values: Float64Array;
+}
+
+// Load cell force and encoder filament position, either may be missing
+export interface MeasurementColumns {
+  force?: MeasuredSeries; // N
+  filament?: MeasuredSeries; // mm of filament
+}
+
+export interface MeasurementFit {
+  pressureTau: number; // s
+  forceGain: number; // N per mm of compressed filament
+  forceZero: number; // N, load cell reading without pressure
+  residual: number; // RMS force error, N
+  k: number; // K with the lowest flow error on the fitted nozzle
+}
+
+export interface MeasurementAnalysis {
+  offset: number; // s, added to the measured time stamps to line them up with the simulated move
+  fit: MeasurementFit | null; // only with a force column
+  traces: Traces; // measured traces on the simulation time grid
+}
+
+// s, range searched for the pressure time constant
+const minTau = 0.002;
+const maxTau = 0.2;
+// Fitted values land on the slider steps, so applying the fit loads them unchanged
+const tauStep = 0.001; // s
+const kStep = 0.01;
+
+const timeScales: Record<string, number> = { s: 1, ms: 1e-3, us: 1e-6, µs: 1e-6 };
+
+// Comma, semicolon or tab separated; '#' comment lines are skipped. The first column, or the one whose
+// header starts with 't'/'time', holds the time stamps, in s unless the header says ms or us.
+export function parseMeasurementCsv(text: string): MeasuredSeries[] {
+  const rows = text
+    .split(/\r?\n/)
+    .filter((line) => line.trim() !== '' && !line.trim().startsWith('#'))
+    .map((line) => line.split(/[,;\t]/).map((cell) => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const hasHeader = rows[0].some((cell) => cell !== '' && isNaN(Number(cell)));
+  const header = hasHeader ? rows[0] : rows[0].map((_, i) => (i === 0 ? 'time' : `column ${i}`));
+  const timeColumn = Math.max(
+    header.findIndex((name) => /^t(ime)?(?![a-z])/i.test(name)),
+    0
+  );
+  // 'time_ms', 't (us)', 'time [s]'
+  const unit =
+    header[timeColumn]
+      .replace(/^t(ime)?/i, '')
+      .match(/(ms|us|µs|s)\W*$/i)?.[1]
+      .toLowerCase() ?? 's';
+
+  const data = (hasHeader ? rows.slice(1) : rows)
+    .map((row) => row.map(Number))
+    .filter((row) => row.length === header.length && row.every((value) => !isNaN(value)))
+    .sort((a, b) => a[timeColumn] - b[timeColumn]);
+  if (data.length < 2) return [];
+
+  const time = Float64Array.from(data, (row) => row[timeColumn] * timeScales[unit]);
+  return header
+    .map((label, column) => ({ label, time, values: Float64Array.from(data, (row) => row[column]) }))
+    .filter((_, column) => column !== timeColumn);
+}
+
+// Picks the force and filament columns by their headers
+export function guessColumns(series: MeasuredSeries[]): MeasurementColumns {
+  return {
+    force: series.find(({ label }) => /force|load|pressure|newton|\bn\b/i.test(label)),
+    filament: series.find(({ label }) => /encoder|filament|position|\bmm\b/i.test(label)),
+  };
+}
+
+// Linear interpolation at startTime + i * dt, holding the first and last values outside the measurement
+function resample(series: MeasuredSeries, startTime: number, dt: number, length: number): Float64Array {
+  const { time, values } = series;
+  const result = new Float64Array(length);
+  let index = 0;
+  for (let i = 0; i < length; i++) {
+    const t = startTime + i * dt;
+    while (index < time.length - 2 && time[index + 1] <= t) index++;
+    const span = time[index + 1] - time[index];
+    const u = span > 0 ? Math.min(Math.max((t - time[index]) / span, 0), 1) : 0;
+    result[i] = values[index] + (values[index + 1] - values[index]) * u;
+  }
+  return result;
+}
+
+const demean = (values: Float64Array) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+  return values.map((v) => v - mean);
+};
+
+// Shift in samples of the measured signal against the simulated one with the highest cross-correlation
+function bestLag(simulated: Float64Array, measured: Float64Array): number {
+  const a = demean(simulated);
+  const b = demean(measured);
+  let best = { lag: 0, score: -Infinity };
+  for (let lag = -(b.length - 1); lag < a.length; lag++) {
+    let score = 0;
+    for (let i = Math.max(0, -lag); i < b.length && i + lag < a.length; i++) score += a[i + lag] * b[i];
+    if (score > best.score) best = { lag, score };
+  }
+  return best.lag;
+}
+
+// Compression of the melt chamber, commanded minus extruded filament, for a nozzle with the given tau
+const compression = (command: Float64Array, params: MotionParameters, pressureTau: number, dt: number) => {
+  const extruded = simulatePhysicalNozzle(command, { ...params, pressureTau }, dt);
+  return command.map((c, i) => c - extruded[i]);
+};
+
+// Least squares force = gain * compression + zero over the measured samples
+function fitForce(x: Float64Array, y: Float64Array) {
+  const n = x.length;
+  let sx = 0;
+  let sy = 0;
+  let sxx = 0;
+  let sxy = 0;
+  for (let i = 0; i < n; i++) {
+    sx += x[i];
+    sy += y[i];
+    sxx += x[i] * x[i];
+    sxy += x[i] * y[i];
+  }
+  const denominator = n * sxx - sx * sx;
+  const gain = denominator !== 0 ? (n * sxy - sx * sy) / denominator : 0;
+  const zero = (sy - gain * sx) / n;
+  let sumSquares = 0;
+  for (let i = 0; i < n; i++) sumSquares += (y[i] - gain * x[i] - zero) ** 2;
+  return { gain, zero, residual: Math.sqrt(sumSquares / n) };
+}
+
+// Lines the measurement up with the simulated move, fits the pressure time constant to the force,
+// and finds the K that best compensates the fitted nozzle
+export function analyzeMeasurement(
+  traces: Traces,
+  params: MotionParameters,
+  columns: MeasurementColumns
+): MeasurementAnalysis | null {
+  const { force, filament } = columns;
+  const aligned = filament ?? force;
+  if (!aligned) return null;
+
+  const dt = 1 / params.ftmFs;
+  const length = traces.position[0].length;
+  const withAdvance = traces.position[1];
+  // Simulated extruder command on the planned time grid
+  const command = Float64Array.from(
+    { length },
+    (_, i) => withAdvance[Math.min(Math.max(i - advanceOffset, 0), withAdvance.length - 1)]
+  );
+
+  // The encoder follows the command directly, the force follows the compression of the simulated nozzle
+  const measuredStart = aligned.time[0];
+  const measuredLength = Math.floor((aligned.time[aligned.time.length - 1] - measuredStart) / dt) + 1;
+  const measured = resample(aligned, measuredStart, dt, measuredLength);
+  const lag = filament
+    ? bestLag(derivate(command, dt), derivate(measured, dt))
+    : bestLag(compression(command, params, params.pressureTau, dt), measured);
+  const offset = lag * dt - measuredStart;
+
+  // Samples of the planned grid covered by the measurement
+  const first = Math.max(0, lag);
+  const last = Math.min(length, lag + measuredLength);
+  const onGrid = (series: MeasuredSeries) => resample(series, -offset, dt, length);
+
+  // The measured filament drives the nozzle when there is one, shifted to start where the simulated command does
+  let measuredFilament: Float64Array | undefined;
+  if (filament) {
+    const values = onGrid(filament);
+    const shift = command[first] - values[first];
+    measuredFilament = values.map((v) => v + shift);
+  }
+  const drive = measuredFilament ?? command;
+
+  let fit: MeasurementFit | null = null;
+  let measuredExtruded: Float64Array | undefined;
+  if (force && last - first > 2) {
+    const measuredForce = onGrid(force);
+    const y = measuredForce.subarray(first, last);
+    const tryTau = (pressureTau: number) => ({
+      pressureTau,
+      ...fitForce(compression(drive, params, pressureTau, dt).subarray(first, last), y),
+    });
+
+    // Log-spaced coarse grid over the pressure tau slider range, then the slider steps around the best point
+    const coarse = sweepValues({ min: Math.log(minTau), max: Math.log(maxTau), steps: 40 }).map(Math.exp);
+    const closest = coarse.map(tryTau).reduce((a, b) => (b.residual < a.residual ? b : a));
+    const ratio = coarse[1] / coarse[0];
+    const best = sweepValues({
+      min: Math.max(Math.floor(closest.pressureTau / ratio / tauStep) * tauStep, minTau),
+      max: Math.min(closest.pressureTau * ratio, maxTau),
+      steps: 21,
+      step: tauStep,
+    })
+      .map(tryTau)
+      .reduce((a, b) => (b.residual < a.residual ? b : a));
+
+    const nozzle = { ...params, nozzleModel: 'physical' as const, pressureTau: best.pressureTau };
+    const maxK = Math.max(0.2, 2 * best.pressureTau);
+    const kValues = sweepValues({ min: 0, max: maxK, steps: Math.round(maxK / kStep) + 1, step: kStep });
+    const k = kValues
+      .map((k) => ({ k, cost: evaluateCost({ ...nozzle, k }, 'flow-rms') }))
+      .reduce((a, b) => (b.cost < a.cost ? b : a)).k;
+
+    fit = {
+      pressureTau: best.pressureTau,
+      forceGain: best.gain,
+      forceZero: best.zero,
+      residual: best.residual,
+      k,
+    };
+    // The extruded filament is what went in minus what the force says is still compressed
+    measuredExtruded =
+      best.gain !== 0 ? drive.map((d, i) => d - (measuredForce[i] - best.zero) / best.gain) : undefined;
+  }
+
+  const position: Float64Array[] = [];
+  const labels: string[] = [];
+  if (measuredFilament) {
+    position.push(measuredFilament);
+    labels.push('Measured filament');
+  }
+  if (measuredExtruded) {
+    position.push(measuredExtruded);
+    labels.push('Measured extruded');
+  }
+  const velocity = position.map((p) => derivate(p, dt));
+  return {
+    offset,
+    fit,
+    traces: {
+      position,
+      velocity,
+      acceleration: velocity.map((v) => derivate(v, dt)),
+      labels,
+      offsets: position.map(() => 0),
+    },
+  };
+}
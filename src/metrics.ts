@@ -0,0 +1,76 @@
+import { MotionParameters, filamentArea } from './profile.js';
+import { Traces, advanceOffset, derivate } from './traces.js';
+import { simulateSteps } from './steps.js';
+
+export interface ExtrusionMetrics {
+  flowError: number; // mm³, integrated |effective - planned| volumetric flow
+  peakVolumetricFlow: number; // mm³/s, of the with-advance filament feed
+  peakExtruderSpeed: number; // mm/s, with advance
+  peakExtruderAcceleration: number; // mm/s², with advance
+  peakExtruderJerk: number; // mm/s³, with advance
+  negativeVelocityTime: number; // s, with-advance extruder running backwards
+  settlingTime: number; // s, from the end of the planned decel until the effective flow stays within tolerance
+  directionReversals: number; // extruder step direction changes
+}
+
+// Relative to the planned peak extruder speed
+const settlingTolerance = 0.02;
+
+export const metricDescriptions: Record<keyof ExtrusionMetrics, { label: string; unit: string }> = {
+  flowError: { label: 'Integrated flow error', unit: 'mm³' },
+  peakVolumetricFlow: { label: 'Peak volumetric flow', unit: 'mm³/s' },
+  peakExtruderSpeed: { label: 'Peak extruder speed', unit: 'mm/s' },
+  peakExtruderAcceleration: { label: 'Peak extruder acceleration', unit: 'mm/s²' },
+  peakExtruderJerk: { label: 'Peak extruder jerk', unit: 'mm/s³' },
+  negativeVelocityTime: { label: 'Negative extruder velocity', unit: 's' },
+  settlingTime: { label: 'Settling time after decel', unit: 's' },
+  directionReversals: { label: 'Step direction reversals', unit: 'count' },
+};
+
+const peakAbs = (values: Float64Array) => values.reduce((peak, v) => Math.max(peak, Math.abs(v)), 0);
+
+function lastIndexWhere(values: Float64Array, predicate: (value: number, index: number) => boolean): number {
+  for (let i = values.length - 1; i >= 0; i--) if (predicate(values[i], i)) return i;
+  return -1;
+}
+
+export function calculateMetrics(traces: Traces, params: MotionParameters): ExtrusionMetrics {
+  const dt = 1 / params.ftmFs;
+  const area = filamentArea(params.filamentDiameter);
+  const [velPlanned, velWithAdvance, velEffective] = traces.velocity;
+  const accWithAdvance = traces.acceleration[1];
+  // Skip the startup sample of the derivative
+  const jerkWithAdvance = derivate(accWithAdvance, dt).slice(1);
+
+  // Effective sample i lines up with planned sample i + advanceOffset
+  const planned = (i: number) => velPlanned[i + advanceOffset] ?? 0;
+
+  let flowError = 0;
+  for (let i = 0; i < velEffective.length; i++) flowError += Math.abs(velEffective[i] - planned(i)) * dt;
+
+  const negativeSamples = velWithAdvance.filter((v) => v < -1e-9).length;
+
+  const tolerance = settlingTolerance * peakAbs(velPlanned);
+  const lastMoving = lastIndexWhere(velPlanned, (v) => Math.abs(v) > 1e-9);
+  const lastOutside = lastIndexWhere(velEffective, (v, i) => Math.abs(v - planned(i)) > tolerance);
+  // Nothing to settle when no sample moves
+  const settlingTime = lastMoving < 0 ? 0 : Math.max(lastOutside - (lastMoving - advanceOffset), 0) * dt;
+
+  const { reversals } = simulateSteps(
+    traces.position[1],
+    params.extruderStepsPerMm,
+    params.ftmFs,
+    params.stepperIsrFrequency
+  );
+
+  return {
+    flowError: flowError * area,
+    peakVolumetricFlow: peakAbs(velWithAdvance) * area,
+    peakExtruderSpeed: peakAbs(velWithAdvance),
+    peakExtruderAcceleration: peakAbs(accWithAdvance),
+    peakExtruderJerk: peakAbs(jerkWithAdvance),
+    negativeVelocityTime: negativeSamples * dt,
+    settlingTime,
+    directionReversals: reversals.length,
+  };
+}
@@ -0,0 +1,46 @@
+import { ExtrusionMetrics, metricDescriptions } from './metrics.js';
+import { LimitViolation, limitDescriptions } from './machine.js';
+import { Diagnostic } from './diagnostics.js';
+
+const formatValue = (value: number) => (Math.abs(value) >= 100 ? value.toFixed(0) : value.toPrecision(3));
+
+// Renders the metrics as a table, with the pinned reference run and deltas when there is one
+export function renderMetricsPanel(
+  element: HTMLElement,
+  current: ExtrusionMetrics,
+  reference?: ExtrusionMetrics,
+  violations: LimitViolation[] = [],
+  diagnostics: Diagnostic[] = []
+) {
+  const header = reference
+    ? '<th>Metric</th><th>Current</th><th>Reference</th><th>Delta</th>'
+    : '<th>Metric</th><th>Value</th>';
+  const rows = (Object.keys(metricDescriptions) as (keyof ExtrusionMetrics)[]).map((key) => {
+    const { label, unit } = metricDescriptions[key];
+    const cells = [`<td>${label} (${unit})</td>`, `<td>${formatValue(current[key])}</td>`];
+    if (reference) {
+      const delta = current[key] - reference[key];
+      cells.push(`<td>${formatValue(reference[key])}</td>`, `<td>${delta >= 0 ? '+' : ''}${formatValue(delta)}</td>`);
+    }
+    return `<tr>${cells.join('')}</tr>`;
+  });
+  element.innerHTML = `<table><thead><tr>${header}</tr></thead><tbody>${rows.join('')}</tbody></table>`;
+
+  // One line per exceeded limit, with its worst peak and how long it is exceeded in total
+  const exceeded = [...new Set(violations.map((violation) => violation.limit))];
+  element.innerHTML += exceeded
+    .map((limit) => {
+      const spans = violations.filter((violation) => violation.limit === limit);
+      const peak = Math.max(...spans.map((span) => span.peak));
+      const samples = spans.reduce((sum, span) => sum + span.end - span.start + 1, 0);
+      const { label, unit } = limitDescriptions[limit];
+      return (
+        `<div class="violation">${label} exceeded: peak ${formatValue(peak)} ${unit} ` +
+        `(limit ${formatValue(spans[0].max)}) over ${samples} samples</div>`
+      );
+    })
+    .join('');
+
+  // Generated profiles that break an invariant of their block, e.g. not ending at the commanded distance
+  element.innerHTML += diagnostics.map(({ message }) => `<div class="violation">${message}</div>`).join('');
+}
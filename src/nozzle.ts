@@ -0,0 +1,96 @@
+export type NozzleModelType = 'first-order' | 'physical';
+
+export interface PhysicalNozzleParameters {
+  pressureTau: number; // s, true pressure time constant of the melt chamber
+  bowdenFrequency: number; // Hz, natural frequency of the filament path, 0 for a rigid (direct drive) path
+  bowdenDamping: number; // damping ratio of the filament path
+  meltFlowIndex: number; // power-law flow behaviour index, 1 for a Newtonian melt, < 1 for shear thinning
+}
+
+// Filament speed at which the nonlinear melt flow matches the linear one
+const referenceFlow = 1; // mm/s of filament
+
+// First order lag, i.e. a nozzle whose pressure time constant matches K exactly
+export function simulateNozzle(values: Float64Array, alpha: number): Float64Array {
+  if (values.length === 0 || alpha <= 0) return values.slice();
+
+  const smoothed = new Float64Array(values.length);
+  smoothed[0] = values[0]; // Start with the first value
+
+  for (let i = 1; i < values.length; i++) {
+    smoothed[i] = alpha * values[i] + (1 - alpha) * smoothed[i - 1];
+  }
+
+  return smoothed;
+}
+
+// Extruded filament position for a commanded extruder position.
+// The filament path is a spring-damper between the extruder gear and the melt chamber, the melt chamber
+// stores compressed filament (pressure) and the nozzle lets it out at a rate given by a power-law melt.
+export function simulatePhysicalNozzle(
+  positions: Float64Array,
+  params: PhysicalNozzleParameters,
+  dt: number
+): Float64Array {
+  if (positions.length === 0) return new Float64Array(0);
+  const { pressureTau, bowdenFrequency, bowdenDamping, meltFlowIndex } = params;
+  const omega = 2 * Math.PI * bowdenFrequency;
+
+  const outflow = (compression: number) => {
+    if (pressureTau <= 0) return 0;
+    const linear = compression / pressureTau;
+    return Math.sign(linear) * referenceFlow * Math.pow(Math.abs(linear) / referenceFlow, 1 / meltFlowIndex);
+  };
+  // d(outflow)/d(compression); a shear-thinning melt gets stiffer the more it is compressed
+  const stiffness = (compression: number) =>
+    Math.pow(Math.abs(compression / pressureTau) / referenceFlow, 1 / meltFlowIndex - 1) /
+    (meltFlowIndex * pressureTau);
+
+  // Sub-step so the explicit integration stays stable for stiff springs and short time constants
+  const substeps = Math.max(
+    1,
+    Math.ceil((dt * omega) / 0.1),
+    pressureTau > 0 ? Math.ceil(dt / (0.2 * pressureTau)) : 1
+  );
+  const h = dt / substeps;
+
+  let filament = positions[0]; // filament position at the melt chamber
+  let filamentVel = 0;
+  let compression = 0;
+  let extruded = positions[0];
+  const effective = new Float64Array(positions.length);
+  effective[0] = extruded;
+
+  for (let i = 1; i < positions.length; i++) {
+    const command = positions[i];
+    const commandVel = (positions[i] - positions[i - 1]) / dt;
+    for (let s = 0; s < substeps; s++) {
+      if (omega > 0) {
+        // Semi-implicit Euler spring-damper
+        filamentVel += (omega * omega * (command - filament) - 2 * bowdenDamping * omega * filamentVel) * h;
+        filament += filamentVel * h;
+      } else {
+        filamentVel = commandVel;
+        filament = command;
+      }
+      if (pressureTau <= 0) {
+        // No pressure dynamics, the nozzle follows the filament
+        extruded += filamentVel * h;
+        continue;
+      }
+      // The pressure steps follow the local stiffness, so the explicit update neither oscillates nor diverges.
+      // A shear-thickening melt is infinitely stiff at zero compression, where there is nothing to overshoot yet.
+      for (let remaining = h; remaining > 0; ) {
+        const limit = 0.5 / stiffness(compression);
+        const step = limit > 0 ? Math.min(remaining, limit) : remaining;
+        const flow = outflow(compression);
+        compression += (filamentVel - flow) * step;
+        extruded += flow * step;
+        remaining -= step;
+      }
+    }
+    effective[i] = extruded;
+  }
+
+  return effective;
+}
@@ -0,0 +1,92 @@
+import { MotionParameters, calculateMotionProfile } from './profile.js';
+import { advanceOffset, calculateAllTraces } from './traces.js';
+
+export type Objective = 'flow-rms' | 'peak-acceleration' | 'weighted';
+
+export interface SweepRange {
+  min: number;
+  max: number;
+  steps: number;
+  step?: number; // grid the values are rounded to, counted from min, e.g. the step of the slider they are loaded into
+}
+
+export interface OptimizerOptions {
+  objective: Objective;
+  weight: number; // share of the peak acceleration term in the weighted objective, 0..1
+  k: SweepRange;
+  smoothingTime: SweepRange;
+  accOvershoot: SweepRange; // only swept for 6POLY
+}
+
+export interface OptimizerResult {
+  k: number;
+  smoothingTime: number;
+  accOvershoot: number;
+  cost: number;
+  // Cost surface over k × smoothingTime at the optimal accOvershoot, cost[smoothingIndex][kIndex]
+  surface: { k: number[]; smoothingTime: number[]; cost: number[][] };
+}
+
+export const defaultOptimizerRanges = {
+  k: { min: 0, max: 0.2, steps: 21 },
+  smoothingTime: { min: 0, max: 0.05, steps: 11 },
+  accOvershoot: { min: 1.25, max: 1.875, steps: 6 },
+};
+
+export function sweepValues({ min, max, steps, step }: SweepRange): number[] {
+  const values = steps <= 1 ? [min] : Array.from({ length: steps }, (_, i) => min + ((max - min) * i) / (steps - 1));
+  if (!step) return values;
+  // toPrecision drops the binary noise of n * step, so the values read back the same from an input
+  const snapped = values.map((value) => parseFloat((min + Math.round((value - min) / step) * step).toPrecision(12)));
+  return [...new Set(snapped)];
+}
+
+const peakAbs = (values: Float64Array) => values.reduce((peak, v) => Math.max(peak, Math.abs(v)), 0);
+
+// Runs the full simulation chain for params and scores the extruder signal; lower is better
+export function evaluateCost(params: MotionParameters, objective: Objective, weight = 0.5): number {
+  const traces = calculateAllTraces(calculateMotionProfile(params), params);
+  const [velPlanned, , velEffective] = traces.velocity;
+  const [accPlanned, accWithAdvance] = traces.acceleration;
+
+  const length = Math.min(velPlanned.length - advanceOffset, velEffective.length);
+  let sumSquares = 0;
+  for (let i = 0; i < length; i++) sumSquares += (velEffective[i] - velPlanned[i + advanceOffset]) ** 2;
+  const flowRms = Math.sqrt(sumSquares / length);
+  const peakAcceleration = peakAbs(accWithAdvance);
+
+  switch (objective) {
+    case 'flow-rms':
+      return flowRms;
+    case 'peak-acceleration':
+      return peakAcceleration;
+    case 'weighted':
+      // Both terms relative to the planned move so they are comparable
+      return (
+        (1 - weight) * (flowRms / (peakAbs(velPlanned) || 1)) + weight * (peakAcceleration / (peakAbs(accPlanned) || 1))
+      );
+  }
+}
+
+// Exhaustive grid search over k, smoothingTime and (for 6POLY) accOvershoot
+export function optimize(params: MotionParameters, options: OptimizerOptions): OptimizerResult {
+  const kValues = sweepValues(options.k);
+  const smoothingValues = sweepValues(options.smoothingTime);
+  const overshootValues = params.trajectory === '6poly' ? sweepValues(options.accOvershoot) : [params.accOvershoot];
+
+  let best = { k: params.k, smoothingTime: params.smoothingTime, accOvershoot: params.accOvershoot, cost: Infinity };
+  let bestSurface: number[][] = [];
+
+  for (const accOvershoot of overshootValues) {
+    const surface = smoothingValues.map((smoothingTime) =>
+      kValues.map((k) => {
+        const cost = evaluateCost({ ...params, k, smoothingTime, accOvershoot }, options.objective, options.weight);
+        if (cost < best.cost) best = { k, smoothingTime, accOvershoot, cost };
+        return cost;
+      })
+    );
+    if (best.accOvershoot === accOvershoot) bestSurface = surface;
+  }
+
+  return { ...best, surface: { k: kValues, smoothingTime: smoothingValues, cost: bestSurface } };
+}
@@ -0,0 +1,117 @@
+import { MotionBlock, MotionParameters, calculateMotionPlan, filamentArea, motionBlocks } from './profile.js';
+import { PlannerMove, planBlocks } from './planner.js';
+import { Traces, advanceOffset } from './traces.js';
+import { shape } from './shaper.js';
+
+export type PathPoint = [number, number]; // X, Y, mm
+
+// A deposited piece of bead, from one nozzle position to the next
+export interface BeadSegment {
+  from: PathPoint;
+  to: PathPoint;
+  width: number; // mm, from the extruded volume over the segment length and the layer height
+}
+
+// One "x, y" vertex per line; blank lines and ';' comments are skipped
+export function parsePath(text: string): PathPoint[] {
+  const path: PathPoint[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const values = line
+      .replace(/;.*$/, '')
+      .split(/[\s,]+/)
+      .filter((value) => value !== '')
+      .map(parseFloat);
+    if (values.length >= 2 && values.every((value) => !isNaN(value))) path.push([values[0], values[1]]);
+  }
+  return path;
+}
+
+export const squarePath = (size: number): PathPoint[] => [
+  [0, 0],
+  [size, 0],
+  [size, size],
+  [0, size],
+  [0, 0],
+];
+
+// Plans a polyline with the current rate/acceleration, extruding a line of the current width and height
+export function pathBlocks(path: PathPoint[], params: MotionParameters): MotionBlock[] {
+  const mmFilamentPerMmTravel = (params.lineWidth * params.layerHeight) / filamentArea(params.filamentDiameter);
+  const moves: PlannerMove[] = path.slice(1).map(([x, y], i) => {
+    const axes: [number, number, number] = [x - path[i][0], y - path[i][1], 0];
+    return {
+      axes,
+      extrusion: Math.hypot(...axes) * mmFilamentPerMmTravel,
+      rate: params.rate,
+      acceleration: params.acceleration,
+      deceleration: params.deceleration,
+    };
+  });
+  return planBlocks(moves);
+}
+
+// Nozzle X/Y per FTM sample, on the same grid as the planned extruder trace. Each axis follows its share of
+// the planned travel and is shaped on its own. Blocks without axes run along X.
+export function nozzlePath(params: MotionParameters): { x: Float64Array; y: Float64Array } {
+  const blocks = motionBlocks(params);
+  const dt = 1 / params.ftmFs;
+  const travel = calculateMotionPlan({
+    ...params,
+    blocks: blocks.map((block) => ({ ...block, filamentPerMm: 1 })),
+  }).profile;
+
+  const x = new Float64Array(travel.length);
+  const y = new Float64Array(travel.length);
+  let blockIndex = 0;
+  let blockStart = 0;
+  const origin: PathPoint = [0, 0];
+  travel.forEach((s, i) => {
+    while (blockIndex < blocks.length - 1 && s > blockStart + blocks[blockIndex].distance) {
+      const [dx, dy] = blocks[blockIndex].axes ?? [blocks[blockIndex].distance, 0, 0];
+      origin[0] += dx;
+      origin[1] += dy;
+      blockStart += blocks[blockIndex].distance;
+      blockIndex++;
+    }
+    const block = blocks[blockIndex];
+    const [dx, dy] = block.axes ?? [block.distance, 0, 0];
+    const fraction = block.distance > 0 ? Math.min(Math.max((s - blockStart) / block.distance, 0), 1) : 0;
+    x[i] = origin[0] + dx * fraction;
+    y[i] = origin[1] + dy * fraction;
+  });
+
+  const { shaper, shaperFrequency, shaperDamping } = params;
+  return {
+    x: shape(x, shaper, shaperFrequency, shaperDamping, dt),
+    y: shape(y, shaper, shaperFrequency, shaperDamping, dt),
+  };
+}
+
+// The effective extrusion laid down along the nozzle path. Samples are merged until the nozzle has moved a
+// quarter line width, so standstills show up as blobs instead of infinitely wide points.
+export function beadSegments(traces: Traces, params: MotionParameters): BeadSegment[] {
+  const { x, y } = nozzlePath(params);
+  const effective = traces.position[2];
+  const area = filamentArea(params.filamentDiameter);
+  const minLength = params.lineWidth / 4;
+
+  const segments: BeadSegment[] = [];
+  // Effective sample i lines up with planned sample i + advanceOffset
+  let from: PathPoint = [x[advanceOffset], y[advanceOffset]];
+  let volume = 0;
+  let length = 0;
+  for (let i = 1; i < effective.length; i++) {
+    const j = i + advanceOffset;
+    if (j >= x.length) break;
+    volume += (effective[i] - effective[i - 1]) * area;
+    length += Math.hypot(x[j] - x[j - 1], y[j] - y[j - 1]);
+    if (length >= minLength || i === effective.length - 1 || j === x.length - 1) {
+      const to: PathPoint = [x[j], y[j]];
+      segments.push({ from, to, width: volume / (Math.max(length, minLength) * params.layerHeight) });
+      from = to;
+      volume = 0;
+      length = 0;
+    }
+  }
+  return segments;
+}
@@ -0,0 +1,70 @@
+import { MotionBlock } from './profile.js';
+
+// A straight move as read from G-code, before junction speeds are planned
+export interface PlannerMove {
+  axes: [number, number, number]; // X, Y, Z deltas, mm
+  extrusion: number; // E delta, mm of filament
+  rate: number; // mm/s
+  acceleration: number; // mm/s²
+  deceleration?: number; // mm/s², defaults to the acceleration
+}
+
+export const defaultJunctionDeviation = 0.013; // mm, Marlin's JUNCTION_DEVIATION_MM default
+
+function moveLength(move: PlannerMove): number {
+  const [x, y, z] = move.axes;
+  const length = Math.hypot(x, y, z);
+  // Extruder-only moves (retract/unretract) are planned along E
+  return length > 0 ? length : Math.abs(move.extrusion);
+}
+
+// Marlin's junction deviation: the speed at which the centripetal acceleration on a circle
+// tangent to both moves, deviating junctionDeviation from the corner, equals the acceleration
+function junctionSpeed(prev: PlannerMove, next: PlannerMove, junctionDeviation: number): number {
+  const prevLength = Math.hypot(...prev.axes);
+  const nextLength = Math.hypot(...next.axes);
+  // Direction changes between XYZ and E-only moves always stop
+  if (prevLength === 0 || nextLength === 0) return 0;
+
+  const cosTheta = -prev.axes.reduce((sum, a, i) => sum + a * next.axes[i], 0) / (prevLength * nextLength);
+  if (cosTheta > 0.999999) return 0; // full reversal
+  if (cosTheta < -0.999999) return Math.min(prev.rate, next.rate); // straight line
+  const sinThetaD2 = Math.sqrt(0.5 * (1.0 - cosTheta));
+  const acceleration = Math.min(prev.acceleration, next.acceleration);
+  const vMax = Math.sqrt((acceleration * junctionDeviation * sinThetaD2) / (1.0 - sinThetaD2));
+  return Math.min(vMax, prev.rate, next.rate);
+}
+
+// Plan entry/exit speeds the way the firmware planner does: cap each junction, then make every
+// speed change reachable with a reverse and a forward pass. The sequence starts and ends at rest.
+export function planBlocks(moves: PlannerMove[], junctionDeviation = defaultJunctionDeviation): MotionBlock[] {
+  const planned = moves.filter((move) => moveLength(move) > 0);
+  const lengths = planned.map(moveLength);
+
+  // junctions[i] is the speed between move i-1 and move i
+  const junctions = planned.map((move, i) => (i === 0 ? 0 : junctionSpeed(planned[i - 1], move, junctionDeviation)));
+  junctions.push(0);
+
+  // Reverse pass: every block must be able to decelerate to its exit speed
+  for (let i = planned.length - 1; i >= 0; i--) {
+    const deceleration = planned[i].deceleration ?? planned[i].acceleration;
+    const maxEntry = Math.sqrt(junctions[i + 1] ** 2 + 2 * deceleration * lengths[i]);
+    junctions[i] = Math.min(junctions[i], maxEntry);
+  }
+  // Forward pass: every block must be able to accelerate to its exit speed
+  for (let i = 0; i < planned.length; i++) {
+    const maxExit = Math.sqrt(junctions[i] ** 2 + 2 * planned[i].acceleration * lengths[i]);
+    junctions[i + 1] = Math.min(junctions[i + 1], maxExit);
+  }
+
+  return planned.map((move, i) => ({
+    distance: lengths[i],
+    rate: move.rate,
+    acceleration: move.acceleration,
+    deceleration: move.deceleration,
+    entrySpeed: junctions[i],
+    exitSpeed: junctions[i + 1],
+    filamentPerMm: move.extrusion / lengths[i],
+    axes: move.axes,
+  }));
+}
@@ -1,14 +1,34 @@
-import { MotionParameters, calculateMotionProfile } from './profile.js';
-import { smoothen } from './smoothen.js';
-
-const derivate = (arr: number[], dt: number) => arr.map((p, i) => (i === 0 ? 0 : (p - arr[i - 1]) / dt));
+import { MotionParameters } from './profile.js';
+import { Traces, extent } from './traces.js';
+import { SimulationClient } from './simulation.js';
+import { ExtrusionMetrics, calculateMetrics } from './metrics.js';
+import { ExtruderLimit, LimitViolation, limitDescriptions } from './machine.js';
+import { tracesToCsv } from './format.js';
+import { DrawingContext, SvgContext } from './svg.js';
+import { Diagnostic } from './diagnostics.js';
+import { ArithmeticDivergence } from './divergence.js';
+
+const measuredColors = ['purple', 'magenta'];
 
 export class MotionSimulator {
   private canvas: HTMLCanvasElement;
-  private ctx: CanvasRenderingContext2D;
-  private profile: number[] | null = null;
+  private ctx: DrawingContext; // the canvas, or the export target while drawTo runs
+  // Canvas pixels per CSS pixel; plots are laid out in CSS pixels
+  private pixelRatio: number = window.devicePixelRatio;
+  private profile: Float64Array | null = null;
+  private simulation = new SimulationClient();
+  private traces: Traces | null = null;
+  private phaseTimes: number[] = [];
+  private diagnostics: Diagnostic[] = [];
+  private violations: LimitViolation[] = [];
+  private divergence: ArithmeticDivergence | null = null;
   private k: number = 0.5;
   private currentParams: MotionParameters | null = null;
+  // Pinned run overlaid for A/B comparison; its traces never change so they are computed once.
+  // It keeps its own sample time, since the current run may use another FTM rate.
+  private reference: { params: MotionParameters; traces: Traces; dt: number } | null = null;
+  // Imported measurement, on the sample grid it was aligned at
+  private measurement: { traces: Traces; dt: number } | null = null;
 
   // Scaling state as array of derivative levels (0=position, 1=velocity, 2=acceleration)
   private scalingState: Array<{
@@ -28,46 +48,202 @@ export class MotionSimulator {
   private animationStartTime: number = 0;
   private firstUpdate: boolean = true;
 
+  // Visible time window in s, shared by all three plots; null shows the whole run
+  private view: { start: number; end: number } | null = null;
+  private hoverTime: number | null = null;
+  private drag: { x: number; start: number; end: number } | null = null;
+
   constructor(canvasId: string) {
     this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
     this.ctx = this.canvas.getContext('2d')!;
     this.resizeCanvas();
     window.addEventListener('resize', () => this.resizeCanvas());
+    this.addInteraction();
+  }
+
+  private addInteraction(): void {
+    // Mouse wheel zooms around the hovered time
+    this.canvas.addEventListener(
+      'wheel',
+      (event) => {
+        if (!this.traces) return;
+        event.preventDefault();
+        const { start, end } = this.visibleRange();
+        const anchor = this.xToTime(event.offsetX);
+        const factor = Math.exp(event.deltaY * 0.001);
+        const minSpan = 10 / this.currentParams!.ftmFs;
+        const span = Math.min(Math.max((end - start) * factor, minSpan), this.duration());
+        const newStart = anchor - ((anchor - start) / (end - start)) * span;
+        this.setView(newStart, newStart + span);
+      },
+      { passive: false }
+    );
+
+    // Drag pans
+    this.canvas.addEventListener('mousedown', (event) => {
+      if (!this.traces) return;
+      this.drag = { x: event.offsetX, ...this.visibleRange() };
+    });
+    window.addEventListener('mouseup', () => {
+      this.drag = null;
+    });
+    this.canvas.addEventListener('mousemove', (event) => {
+      if (!this.traces) return;
+      if (this.drag) {
+        const width = this.canvas.width / this.pixelRatio;
+        const shift = ((this.drag.x - event.offsetX) / (width - 100)) * (this.drag.end - this.drag.start);
+        this.setView(this.drag.start + shift, this.drag.end + shift);
+      }
+      this.hoverTime = this.xToTime(event.offsetX);
+      this.draw();
+    });
+    this.canvas.addEventListener('mouseleave', () => {
+      this.hoverTime = null;
+      this.draw();
+    });
+
+    // Double click shows the whole run again
+    this.canvas.addEventListener('dblclick', () => {
+      this.view = null;
+      this.draw();
+    });
+  }
+
+  // Last sample time over all traces, including the reference run
+  private duration(): number {
+    if (!this.traces || !this.currentParams) return 0;
+    // s, from the first to the last sample of a set of traces
+    const span = (traces: Traces, dt: number) =>
+      (Math.max(...traces.position.map((trace, i) => trace.length + traces.offsets[i])) - 1) * dt;
+    return Math.max(
+      span(this.traces, 1 / this.currentParams.ftmFs),
+      this.reference ? span(this.reference.traces, this.reference.dt) : 0,
+      this.measurement ? span(this.measurement.traces, this.measurement.dt) : 0
+    );
+  }
+
+  private visibleRange(): { start: number; end: number } {
+    return this.view ?? { start: 0, end: this.duration() };
+  }
+
+  // Keeps the window inside the run
+  private setView(start: number, end: number): void {
+    const span = end - start;
+    const duration = this.duration();
+    const clampedStart = Math.min(Math.max(start, 0), Math.max(duration - span, 0));
+    this.view = { start: clampedStart, end: clampedStart + span };
+  }
+
+  private timeToX(time: number): number {
+    const width = this.canvas.width / this.pixelRatio;
+    const { start, end } = this.visibleRange();
+    return 50 + ((time - start) / (end - start || 1)) * (width - 100);
+  }
+
+  private xToTime(x: number): number {
+    const width = this.canvas.width / this.pixelRatio;
+    const { start, end } = this.visibleRange();
+    return start + ((x - 50) / (width - 100)) * (end - start);
   }
 
   private resizeCanvas(): void {
     const rect = this.canvas.parentElement!.getBoundingClientRect();
-    this.canvas.width = rect.width * window.devicePixelRatio;
-    this.canvas.height = rect.height * window.devicePixelRatio;
-    this.ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0);
+    this.pixelRatio = window.devicePixelRatio;
+    this.canvas.width = rect.width * this.pixelRatio;
+    this.canvas.height = rect.height * this.pixelRatio;
+    this.ctx.setTransform(this.pixelRatio, 0, 0, this.pixelRatio, 0, 0);
     // Redraw after resize to update axes
     if (this.profile) {
       this.draw();
     }
   }
 
-  updateProfile(params: MotionParameters): void {
-    this.currentParams = params;
-    this.profile = calculateMotionProfile(params);
-    this.k = params.k;
+  // Both resolve to false when a newer update overtook this one; the plots then keep their state
+  async updateProfile(params: MotionParameters): Promise<boolean> {
+    if (!(await this.setProfile(params))) return false;
     this.updateScaling();
     this.draw();
+    return true;
   }
 
-  updateProfileOnly(params: MotionParameters): void {
+  async updateProfileOnly(params: MotionParameters): Promise<boolean> {
+    if (!(await this.setProfile(params))) return false;
+    this.draw();
+    return true;
+  }
+
+  // Traces are computed once per parameter set; redraws and animations only render them
+  private async setProfile(params: MotionParameters): Promise<boolean> {
+    const result = await this.simulation.run(params);
+    if (!result) return false;
     this.currentParams = params;
-    this.profile = calculateMotionProfile(params);
+    this.profile = result.profile;
+    this.phaseTimes = result.phaseTimes;
+    this.diagnostics = result.diagnostics.violations;
+    this.violations = result.violations;
+    this.divergence = result.divergence;
+    this.traces = result.traces;
     this.k = params.k;
+    if (this.view) this.setView(this.view.start, Math.min(this.view.end, this.view.start + this.duration()));
+    return true;
+  }
+
+  pinReference(): void {
+    if (!this.traces || !this.currentParams) return;
+    this.reference = { params: this.currentParams, traces: this.traces, dt: 1 / this.currentParams.ftmFs };
+    this.updateScaling();
     this.draw();
   }
 
-  private updateScaling(): void {
-    if (!this.profile || !this.currentParams || this.animating) return;
+  clearReference(): void {
+    this.reference = null;
+    this.updateScaling();
+    this.draw();
+  }
 
-    const dt = 1 / this.currentParams.ftmFs;
+  hasReference(): boolean {
+    return this.reference !== null;
+  }
 
-    // Calculate all traces using array-based approach
-    const traces = this.calculateAllTraces(this.profile, dt);
+  setMeasurement(traces: Traces | null, dt = 0): void {
+    this.measurement = traces ? { traces, dt } : null;
+    this.updateScaling();
+    this.draw();
+  }
+
+  getTraces(): Traces | null {
+    return this.traces;
+  }
+
+  getDivergence(): ArithmeticDivergence | null {
+    return this.divergence;
+  }
+
+  // The parameters the current traces were computed for
+  getCurrentParams(): MotionParameters | null {
+    return this.currentParams;
+  }
+
+  getMetrics(): {
+    current: ExtrusionMetrics;
+    reference?: ExtrusionMetrics;
+    violations: LimitViolation[];
+    diagnostics: Diagnostic[];
+  } | null {
+    if (!this.traces || !this.currentParams) return null;
+    const traces = this.traces;
+    const current = calculateMetrics(traces, this.currentParams);
+    const violations = this.violations;
+    const diagnostics = this.diagnostics;
+    if (!this.reference) return { current, violations, diagnostics };
+    const reference = calculateMetrics(this.reference.traces, this.reference.params);
+    return { current, reference, violations, diagnostics };
+  }
+
+  private updateScaling(): void {
+    if (!this.traces || !this.currentParams || this.animating) return;
+
+    const traces = this.traces;
 
     // Process each derivative level (0=position, 1=velocity, 2=acceleration)
     for (let level = 0; level < 3; level++) {
@@ -77,9 +253,13 @@ export class MotionSimulator {
 
       // Calculate new values
       const levelKeys = ['position', 'velocity', 'acceleration'] as const;
-      const allValues = traces[levelKeys[level]].flat();
-      this.scalingState[level].newMax = Math.max(...allValues);
-      this.scalingState[level].newMin = Math.min(...allValues);
+      const ranges = [
+        ...traces[levelKeys[level]],
+        ...(this.reference?.traces[levelKeys[level]] ?? []),
+        ...(this.measurement?.traces[levelKeys[level]] ?? []),
+      ].map(extent);
+      this.scalingState[level].newMax = Math.max(...ranges.map((range) => range.max));
+      this.scalingState[level].newMin = Math.min(...ranges.map((range) => range.min));
     }
 
     if (this.firstUpdate) {
@@ -97,41 +277,6 @@ export class MotionSimulator {
     }
   }
 
-  private calculateAllTraces(posRaw: number[], dt: number) {
-    // Calculate derivatives
-    const velRaw = derivate(posRaw, dt);
-    const accRaw = derivate(velRaw, dt);
-
-    // Calculate extruder(t) values - first apply formula to posRaw, then smooth
-    const posWithAdvanceRaw = posRaw.map((p, i) => p + this.currentParams!.k * velRaw[i]);
-    let posWithAdvance = smoothen(
-      posWithAdvanceRaw,
-      this.currentParams!.smoothingTime,
-      dt,
-      this.currentParams!.ftmFs,
-      this.currentParams!.ftmSmoothingOrder
-    );
-    let velWithAdvance = derivate(posWithAdvance, dt);
-    let accWithAdvance = derivate(velWithAdvance, dt);
-    posWithAdvance = posWithAdvance.slice(2);
-    velWithAdvance = velWithAdvance.slice(2);
-    accWithAdvance = accWithAdvance.slice(2);
-
-    // Calculate effective values using exponential smoothing with tau = k
-    const tau = this.currentParams!.k;
-    const alpha = 1 - Math.exp(-dt / tau);
-    const posEffective = this.simulateNozzle(posWithAdvance, alpha);
-    const velEffective = this.simulateNozzle(velWithAdvance, alpha);
-    const accEffective = this.simulateNozzle(accWithAdvance, alpha);
-
-    return {
-      position: [posRaw, posWithAdvance, posEffective],
-      velocity: [velRaw, velWithAdvance, velEffective],
-      acceleration: [accRaw, accWithAdvance, accEffective],
-      labels: ['Planned', 'With advance', 'Effective'],
-    };
-  }
-
   private animateScaling(): void {
     const elapsed = performance.now() - this.animationStartTime;
     const duration = 500;
@@ -170,36 +315,89 @@ export class MotionSimulator {
     this.draw();
   }
 
-  private simulateNozzle(values: number[], alpha: number): number[] {
-    if (values.length === 0) return [];
-    if (alpha <= 0) return [...values];
+  // Vector rendering of the current view, without the crosshair
+  exportSvg(): string {
+    const width = this.canvas.width / this.pixelRatio;
+    const height = this.canvas.height / this.pixelRatio;
+    const svg = new SvgContext(width, height);
+    this.drawTo(svg, this.canvas, this.pixelRatio);
+    return svg.toString();
+  }
+
+  // Same layout as on screen, rendered at scale canvas pixels per CSS pixel
+  exportPng(scale = 3): Promise<Blob> {
+    const canvas = document.createElement('canvas');
+    canvas.width = (this.canvas.width / this.pixelRatio) * scale;
+    canvas.height = (this.canvas.height / this.pixelRatio) * scale;
+    const ctx = canvas.getContext('2d')!;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    this.drawTo(ctx, canvas, scale);
+    // White background behind the plots
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = 'white';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    return new Promise((resolve, reject) =>
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('PNG export failed'))), 'image/png')
+    );
+  }
 
-    const smoothed = [values[0]]; // Start with the first value
+  exportCsv(): string {
+    if (!this.traces || !this.currentParams) return '';
+    return tracesToCsv(this.traces, this.currentParams);
+  }
 
-    for (let i = 1; i < values.length; i++) {
-      smoothed[i] = alpha * values[i] + (1 - alpha) * smoothed[i - 1];
+  // Draws once into another target, then restores the on-screen one
+  private drawTo(ctx: DrawingContext, canvas: HTMLCanvasElement, pixelRatio: number): void {
+    const screen = { ctx: this.ctx, canvas: this.canvas, pixelRatio: this.pixelRatio, hoverTime: this.hoverTime };
+    Object.assign(this, { ctx, canvas, pixelRatio, hoverTime: null });
+    try {
+      this.draw();
+    } finally {
+      Object.assign(this, screen);
     }
-
-    return smoothed;
   }
 
   private draw(): void {
-    if (!this.profile || !this.currentParams) return;
+    if (!this.traces || !this.currentParams) return;
 
-    this.ctx.clearRect(0, 0, this.canvas.width / window.devicePixelRatio, this.canvas.height / window.devicePixelRatio);
+    this.ctx.clearRect(0, 0, this.canvas.width / this.pixelRatio, this.canvas.height / this.pixelRatio);
 
-    const height = this.canvas.height / window.devicePixelRatio;
-    const dt = 1 / this.currentParams.ftmFs;
+    const height = this.canvas.height / this.pixelRatio;
     const plotHeight = height / 3;
+    const dt = 1 / this.currentParams.ftmFs;
+
+    const traces = this.traces;
 
-    // Calculate all traces using array-based approach
-    const traces = this.calculateAllTraces(this.profile, dt);
+    const reference = this.reference?.traces;
+    const measurement = this.measurement;
+    const violations = this.violations;
 
     // Define plot configurations
     const plotConfigs = [
-      { traces: traces.position, colors: ['green', 'blue', 'red'], label: 'Position (mm)' },
-      { traces: traces.velocity, colors: ['green', 'blue', 'red'], label: 'Velocity (mm/s)' },
-      { traces: traces.acceleration, colors: ['green', 'blue', 'red'], label: 'Acceleration (mm/s²)' },
+      {
+        traces: traces.position,
+        referenceTraces: reference?.position,
+        measuredTraces: measurement?.traces.position ?? [],
+        colors: ['green', 'blue', 'red', 'orange'],
+        label: 'Position (mm)',
+        limits: [] as ExtruderLimit[],
+      },
+      {
+        traces: traces.velocity,
+        referenceTraces: reference?.velocity,
+        measuredTraces: measurement?.traces.velocity ?? [],
+        colors: ['green', 'blue', 'red', 'orange'],
+        label: 'Velocity (mm/s)',
+        limits: ['volumetricFlow', 'feedrate', 'jerk', 'stepRate'] as ExtruderLimit[],
+      },
+      {
+        traces: traces.acceleration,
+        referenceTraces: reference?.acceleration,
+        measuredTraces: measurement?.traces.acceleration ?? [],
+        colors: ['green', 'blue', 'red', 'orange'],
+        label: 'Acceleration (mm/s²)',
+        limits: ['acceleration'] as ExtruderLimit[],
+      },
     ];
 
     // Draw all plots using loops
@@ -212,11 +410,44 @@ export class MotionSimulator {
         plotHeight,
         config.label
       );
+      this.drawTimeAxis(plotIndex * plotHeight, plotHeight);
+
+      // Shade the spans where the with-advance signal exceeds the machine limits
+      this.drawViolations(
+        violations.filter((violation) => config.limits.includes(violation.limit)),
+        traces.offsets[1] * dt,
+        dt,
+        plotIndex * plotHeight,
+        plotHeight
+      );
+
+      // Draw the reference run dashed and faded underneath, matched by label
+      const referenceIndex = (traceIndex: number) =>
+        reference ? reference.labels.indexOf(traces.labels[traceIndex]) : -1;
+      const referenceTrace = (traceIndex: number) => config.referenceTraces?.[referenceIndex(traceIndex)];
+      config.traces.forEach((_, traceIndex) => {
+        const trace = referenceTrace(traceIndex);
+        if (!trace) return;
+        const referenceDt = this.reference!.dt;
+        this.drawTrace(
+          trace,
+          reference!.offsets[referenceIndex(traceIndex)] * referenceDt,
+          referenceDt,
+          this.scalingState[plotIndex].min,
+          this.scalingState[plotIndex].max,
+          plotIndex * plotHeight,
+          plotHeight,
+          config.colors[traceIndex],
+          true
+        );
+      });
 
       // Draw all traces and their legends for this plot
       config.traces.forEach((trace, traceIndex) => {
         this.drawTrace(
           trace,
+          traces.offsets[traceIndex] * dt,
+          dt,
           this.scalingState[plotIndex].min,
           this.scalingState[plotIndex].max,
           plotIndex * plotHeight,
@@ -231,14 +462,134 @@ export class MotionSimulator {
           traces.labels[traceIndex],
           plotIndex * plotHeight,
           plotHeight,
-          traceIndex
+          traceIndex,
+          referenceTrace(traceIndex)
         );
       });
+
+      // Measured traces on top, listed below the simulated ones
+      config.measuredTraces.forEach((trace, traceIndex) => {
+        const color = measuredColors[traceIndex % measuredColors.length];
+        const yOffset = plotIndex * plotHeight;
+        const { min, max } = this.scalingState[plotIndex];
+        this.drawTrace(trace, 0, measurement!.dt, min, max, yOffset, plotHeight, color);
+        const label = measurement!.traces.labels[traceIndex];
+        this.drawLegend(trace, color, label, yOffset, plotHeight, config.traces.length + traceIndex);
+      });
+    });
+
+    if (this.hoverTime !== null) this.drawCrosshair(this.hoverTime, plotConfigs, plotHeight);
+  }
+
+  private drawTimeAxis(yOffset: number, plotHeight: number): void {
+    const { start, end } = this.visibleRange();
+    const spanMs = (end - start) * 1000;
+    if (spanMs <= 0) return;
+
+    // 1, 2 or 5 × 10^n ms, for roughly 10 ticks
+    const rawStep = spanMs / 10;
+    const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)));
+    const step = [1, 2, 5, 10].map((m) => m * magnitude).find((m) => m >= rawStep)!;
+    const bottom = yOffset + plotHeight - 20;
+
+    this.ctx.save();
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'center';
+    for (let tick = Math.ceil((start * 1000) / step) * step; tick <= end * 1000; tick += step) {
+      const x = this.timeToX(tick / 1000);
+      this.ctx.strokeStyle = '#eee';
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, yOffset + 20);
+      this.ctx.lineTo(x, bottom);
+      this.ctx.stroke();
+      this.ctx.fillStyle = '#666';
+      this.ctx.fillText(`${parseFloat(tick.toPrecision(6))} ms`, x, bottom + 12);
+    }
+
+    // Phase boundaries of the planned move
+    this.ctx.strokeStyle = '#bbb';
+    this.ctx.setLineDash([2, 3]);
+    for (const time of this.phaseTimes) {
+      if (time < start || time > end) continue;
+      const x = this.timeToX(time);
+      this.ctx.beginPath();
+      this.ctx.moveTo(x, yOffset + 20);
+      this.ctx.lineTo(x, bottom);
+      this.ctx.stroke();
+    }
+    this.ctx.restore();
+  }
+
+  // Vertical line over all plots with the value of every trace at the hovered time
+  private drawCrosshair(
+    time: number,
+    plotConfigs: Array<{
+      traces: Float64Array[];
+      referenceTraces?: Float64Array[];
+      measuredTraces: Float64Array[];
+      colors: string[];
+    }>,
+    plotHeight: number
+  ): void {
+    const { start, end } = this.visibleRange();
+    if (time < start || time > end) return;
+    const traces = this.traces!;
+    const dt = 1 / this.currentParams!.ftmFs;
+    const reference = this.reference;
+    const measurement = this.measurement;
+    // Each set of traces is read out on its own sample grid
+    const sample = (trace: Float64Array, offset: number, sampleTime: number) =>
+      trace[Math.round(time / sampleTime) - offset];
+    const x = this.timeToX(time);
+    const height = this.canvas.height / this.pixelRatio;
+    const width = this.canvas.width / this.pixelRatio;
+
+    this.ctx.save();
+    this.ctx.strokeStyle = '#888';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(x, 0);
+    this.ctx.lineTo(x, height);
+    this.ctx.stroke();
+
+    this.ctx.font = '10px Arial';
+    plotConfigs.forEach((config, plotIndex) => {
+      const lines = [{ text: `t = ${(time * 1000).toFixed(1)} ms`, color: '#333' }];
+      config.traces.forEach((trace, traceIndex) => {
+        const value = sample(trace, traces.offsets[traceIndex], dt);
+        if (value === undefined) return;
+        lines.push({ text: `${traces.labels[traceIndex]}: ${value.toFixed(3)}`, color: config.colors[traceIndex] });
+      });
+      config.referenceTraces?.forEach((trace, traceIndex) => {
+        const value = sample(trace, reference!.traces.offsets[traceIndex], reference!.dt);
+        if (value === undefined) return;
+        const label = reference!.traces.labels[traceIndex];
+        const color = config.colors[traces.labels.indexOf(label)] ?? '#888';
+        lines.push({ text: `${label} (reference): ${value.toFixed(3)}`, color });
+      });
+      config.measuredTraces.forEach((trace, traceIndex) => {
+        const value = sample(trace, measurement!.traces.offsets[traceIndex], measurement!.dt);
+        if (value === undefined) return;
+        const color = measuredColors[traceIndex % measuredColors.length];
+        lines.push({ text: `${measurement!.traces.labels[traceIndex]}: ${value.toFixed(3)}`, color });
+      });
+
+      const boxWidth = Math.max(...lines.map((line) => this.ctx.measureText(line.text).width)) + 8;
+      // Flip to the left of the line near the right edge
+      const boxX = x + 8 + boxWidth > width ? x - 8 - boxWidth : x + 8;
+      const boxY = plotIndex * plotHeight + 22;
+      this.ctx.fillStyle = 'rgba(255, 255, 255, 0.85)';
+      this.ctx.fillRect(boxX, boxY, boxWidth, lines.length * 12 + 4);
+      lines.forEach((line, i) => {
+        this.ctx.fillStyle = line.color;
+        this.ctx.fillText(line.text, boxX + 4, boxY + 12 + i * 12);
+      });
     });
+    this.ctx.restore();
   }
 
   private drawAxes(minValue: number, maxValue: number, yOffset: number, plotHeight: number, label: string): void {
-    const width = this.canvas.width / window.devicePixelRatio;
+    const width = this.canvas.width / this.pixelRatio;
     const range = maxValue - minValue;
     if (range === 0) return;
     const scale = (plotHeight - 40) / range;
@@ -281,29 +632,77 @@ export class MotionSimulator {
     this.ctx.fillText(label, 45, yOffset + 15);
   }
 
+  private drawViolations(
+    violations: LimitViolation[],
+    startTime: number,
+    dt: number,
+    yOffset: number,
+    plotHeight: number
+  ) {
+    if (violations.length === 0) return;
+    const width = this.canvas.width / this.pixelRatio;
+    const x = (i: number) => this.timeToX(startTime + i * dt);
+
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(50, yOffset, width - 100, plotHeight);
+    this.ctx.clip();
+    this.ctx.fillStyle = 'rgba(255, 0, 0, 0.12)';
+    for (const { start, end } of violations) {
+      this.ctx.fillRect(x(start), yOffset + 20, Math.max(x(end + 1) - x(start), 1), plotHeight - 40);
+    }
+    this.ctx.restore();
+
+    const exceeded = [...new Set(violations.map((violation) => violation.limit))];
+    this.ctx.fillStyle = 'red';
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.fillText(
+      `Exceeds: ${exceeded.map((limit) => limitDescriptions[limit].label).join(', ')}`,
+      width - 50,
+      yOffset + 15
+    );
+    this.ctx.textAlign = 'left';
+  }
+
   private drawTrace(
-    trace: number[],
+    trace: Float64Array,
+    startTime: number,
+    dt: number,
     minValue: number,
     maxValue: number,
     yOffset: number,
     plotHeight: number,
-    color: string
+    color: string,
+    dashed = false
   ): void {
-    const width = this.canvas.width / window.devicePixelRatio;
+    const width = this.canvas.width / this.pixelRatio;
     const range = maxValue - minValue;
     if (range === 0) return;
     const scale = (plotHeight - 40) / range;
 
+    this.ctx.save();
+    this.ctx.beginPath();
+    this.ctx.rect(50, yOffset, width - 100, plotHeight);
+    this.ctx.clip();
     this.ctx.strokeStyle = color;
     this.ctx.lineWidth = 2;
+    if (dashed) {
+      this.ctx.setLineDash([6, 4]);
+      this.ctx.globalAlpha = 0.4;
+    }
     this.ctx.beginPath();
 
-    for (let i = 0; i < trace.length; i++) {
-      const x = (i / trace.length) * (width - 100) + 50;
+    // Only the visible samples, plus one on each side so lines reach the plot edges
+    const { start, end } = this.visibleRange();
+    const first = Math.max(Math.floor((start - startTime) / dt) - 1, 0);
+    const last = Math.min(Math.ceil((end - startTime) / dt) + 1, trace.length - 1);
+    for (let i = first; i <= last; i++) {
+      const x = this.timeToX(startTime + i * dt);
       const value = trace[i];
       const y = yOffset + plotHeight - 20 - (value - minValue) * scale;
 
-      if (i === 0) {
+      if (i === first) {
         this.ctx.moveTo(x, y);
       } else {
         this.ctx.lineTo(x, y);
@@ -311,29 +710,38 @@ export class MotionSimulator {
     }
 
     this.ctx.stroke();
+    this.ctx.restore();
   }
 
   private drawLegend(
-    trace: number[],
+    trace: Float64Array,
     color: string,
     label: string,
     yOffset: number,
     plotHeight: number,
-    traceIndex: number
+    traceIndex: number,
+    reference?: Float64Array
   ): void {
-    const width = this.canvas.width / window.devicePixelRatio;
+    const width = this.canvas.width / this.pixelRatio;
     this.ctx.font = '10px Arial';
     this.ctx.textAlign = 'right';
 
     const labelX = width - 50;
     const labelY = yOffset + plotHeight - 90 + traceIndex * 10;
 
+    const { max, min } = extent(trace);
+    let text = `${label}: Max: ${max.toFixed(1)}, Min: ${min.toFixed(1)}`;
+    if (reference) {
+      // Side by side with the pinned run: current | reference (delta)
+      const { max: refMax, min: refMin } = extent(reference);
+      const delta = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(1)}`;
+      text =
+        `${label}: Max: ${max.toFixed(1)} | ${refMax.toFixed(1)} (${delta(max - refMax)}), ` +
+        `Min: ${min.toFixed(1)} | ${refMin.toFixed(1)} (${delta(min - refMin)})`;
+    }
+
     this.ctx.fillStyle = color;
-    this.ctx.fillText(
-      `${label}: Max: ${Math.max(...trace).toFixed(1)}, Min: ${Math.min(...trace).toFixed(1)}`,
-      labelX,
-      labelY
-    );
+    this.ctx.fillText(text, labelX, labelY);
     this.ctx.textAlign = 'left';
   }
 }
@@ -1,33 +1,37 @@
+import { isDegenerateMove, lastSampleTime, trapezoidTimings } from './trapezoidal.js';
+import { Round, exact } from './arithmetic.js';
+
 export function poly6Profile(
   distance: number,
   rate: number,
   acceleration: number,
+  deceleration: number,
   accOvershoot: number,
-  dt: number
+  dt: number,
+  initial_speed = 0.0,
+  final_speed = 0.0,
+  startTime = 0.0,
+  round: Round = exact
 ): number[] {
   const profile: number[] = [];
+  if (isDegenerateMove(distance, rate, acceleration, deceleration)) return profile;
 
   // Port of Marlin's Poly6TrajectoryGenerator
-  const initial_speed = 0.0;
-  const final_speed = 0.0;
-  let nominal_speed = rate;
 
   // --- Trapezoid timings (unchanged) ---
-  const invA = 1.0 / acceleration;
-  const ldiff = distance + 0.5 * invA * (initial_speed * initial_speed + final_speed * final_speed);
-
-  let T2 = ldiff / nominal_speed - invA * nominal_speed;
-  if (T2 < 0.0) {
-    T2 = 0.0;
-    nominal_speed = Math.sqrt(ldiff * acceleration);
-  }
-
-  const T1 = (nominal_speed - initial_speed) * invA;
-  const T3 = (nominal_speed - final_speed) * invA;
+  const { T1, T2, T3, nominal_speed } = trapezoidTimings(
+    distance,
+    rate,
+    acceleration,
+    deceleration,
+    initial_speed,
+    final_speed,
+    round
+  );
 
   // Distances at phase boundaries (trapezoid areas)
-  const pos_before_coast = 0.5 * (initial_speed + nominal_speed) * T1;
-  const pos_after_coast = pos_before_coast + nominal_speed * T2;
+  const pos_before_coast = round(round(0.5 * round(initial_speed + nominal_speed)) * T1);
+  const pos_after_coast = round(pos_before_coast + round(nominal_speed * T2));
 
   // --- Build sextic (in position) for each phase ---
   // Common mid values for K''(u)
@@ -45,19 +49,20 @@ export function poly6Profile(
     const s1 = pos_before_coast;
     const v1 = nominal_speed;
 
-    const delta_p = s1 - s0 - v0 * Ts;
-    const delta_v = (v1 - v0) * Ts;
+    const delta_p = round(round(s1 - s0) - round(v0 * Ts));
+    const delta_v = round(round(v1 - v0) * Ts);
 
     // s5(u) = s0 + v0*Ts*u + c3 u^3 + c4 u^4 + c5 u^5
-    acc_c3 = 10.0 * delta_p - 4.0 * delta_v;
-    acc_c4 = -15.0 * delta_p + 7.0 * delta_v;
-    acc_c5 = 6.0 * delta_p - 3.0 * delta_v;
+    acc_c3 = round(round(10.0 * delta_p) - round(4.0 * delta_v));
+    acc_c4 = round(round(-15.0 * delta_p) + round(7.0 * delta_v));
+    acc_c5 = round(round(6.0 * delta_p) - round(3.0 * delta_v));
 
     // a5_mid = s5''(0.5)/Ts^2
-    const a5_mid = s5pp_u(acc_c3, acc_c4, acc_c5, 0.5) / (Ts * Ts);
-    const a_mid_target = accOvershoot * acceleration;
+    const a5_mid = round(s5pp_u(acc_c3, acc_c4, acc_c5, 0.5, round) / round(Ts * Ts));
+    const a_mid_target = round(accOvershoot * acceleration);
     // c chosen so that (s5''(0.5)+c5*K''(0.5))/Ts^2 == a_mid_target
-    acc_c6 = (Ts * Ts * (a_mid_target - a5_mid)) / Kpp_mid;
+    // No accel phase when the move enters at its nominal speed; it is never sampled then
+    acc_c6 = Ts > 0 ? round(round(round(Ts * Ts) * round(a_mid_target - a5_mid)) / Kpp_mid) : 0.0;
   }
 
   // ---- Decel phase ----
@@ -69,67 +74,78 @@ export function poly6Profile(
     const Ts = T3;
     const s0 = pos_after_coast;
     const v0 = nominal_speed;
-    const s1 = pos_after_coast + 0.5 * (nominal_speed + final_speed) * T3;
+    const s1 = round(pos_after_coast + round(round(0.5 * round(nominal_speed + final_speed)) * T3));
     const v1 = final_speed;
 
-    const delta_p = s1 - s0 - v0 * Ts;
-    const delta_v = (v1 - v0) * Ts;
+    const delta_p = round(round(s1 - s0) - round(v0 * Ts));
+    const delta_v = round(round(v1 - v0) * Ts);
 
-    dec_c3 = 10.0 * delta_p - 4.0 * delta_v;
-    dec_c4 = -15.0 * delta_p + 7.0 * delta_v;
-    dec_c5 = 6.0 * delta_p - 3.0 * delta_v;
+    dec_c3 = round(round(10.0 * delta_p) - round(4.0 * delta_v));
+    dec_c4 = round(round(-15.0 * delta_p) + round(7.0 * delta_v));
+    dec_c5 = round(round(6.0 * delta_p) - round(3.0 * delta_v));
 
-    const a5_mid = s5pp_u(dec_c3, dec_c4, dec_c5, 0.5) / (Ts * Ts);
-    const a_mid_target = -accOvershoot * acceleration;
-    dec_c6 = (Ts * Ts * (a_mid_target - a5_mid)) / Kpp_mid;
+    const a5_mid = round(s5pp_u(dec_c3, dec_c4, dec_c5, 0.5, round) / round(Ts * Ts));
+    const a_mid_target = round(-accOvershoot * deceleration);
+    dec_c6 = Ts > 0 ? round(round(round(Ts * Ts) * round(a_mid_target - a5_mid)) / Kpp_mid) : 0.0;
   }
 
   // Generate profile points - calculate positions
-  let time = 0;
-  const totalTime = T1 + T2 + T3;
+  let time = startTime;
+  const decel_start = round(T1 + T2);
+  const totalTime = round(decel_start + T3);
 
-  while (time <= totalTime) {
+  while (time <= lastSampleTime(totalTime, dt)) {
+    const now = Math.min(time, totalTime);
     let position: number;
 
-    if (time < T1) {
+    if (now < T1) {
       // Accel phase: u = time/T1
-      const u = time / T1;
-      position = s5_u(0.0, initial_speed, T1, acc_c3, acc_c4, acc_c5, u) + acc_c6 * K_u(0.0, initial_speed, T1, u);
-    } else if (time <= T1 + T2) {
+      const u = round(now / T1);
+      position = round(
+        s5_u(0.0, initial_speed, T1, acc_c3, acc_c4, acc_c5, u, round) +
+          round(acc_c6 * K_u(0.0, initial_speed, T1, u, round))
+      );
+    } else if (now <= decel_start) {
       // Coast
-      position = pos_before_coast + nominal_speed * (time - T1);
+      position = round(pos_before_coast + round(nominal_speed * round(now - T1)));
     } else {
       // Decel phase
-      const tau = time - (T1 + T2);
-      const u = tau / T3;
-      position =
-        s5_u(pos_after_coast, nominal_speed, T3, dec_c3, dec_c4, dec_c5, u) +
-        dec_c6 * K_u(pos_after_coast, nominal_speed, T3, u);
+      const tau = round(now - decel_start);
+      const u = round(tau / T3);
+      position = round(
+        s5_u(pos_after_coast, nominal_speed, T3, dec_c3, dec_c4, dec_c5, u, round) +
+          round(dec_c6 * K_u(pos_after_coast, nominal_speed, T3, u, round))
+      );
     }
 
     profile.push(position);
 
-    time += dt;
+    // The sample time accumulates, as in the firmware loop
+    time = round(time + dt);
   }
 
   return profile;
 }
 
 // Utility functions ported from Marlin
-function s5_u(s0: number, v0: number, Ts: number, c3: number, c4: number, c5: number, u: number): number {
-  const u2 = u * u,
-    u3 = u2 * u,
-    u4 = u3 * u,
-    u5 = u4 * u;
-  return s0 + v0 * Ts * u + c3 * u3 + c4 * u4 + c5 * u5;
+function s5_u(s0: number, v0: number, Ts: number, c3: number, c4: number, c5: number, u: number, round: Round): number {
+  const u2 = round(u * u),
+    u3 = round(u2 * u),
+    u4 = round(u3 * u),
+    u5 = round(u4 * u);
+  const s = round(round(round(s0 + round(round(v0 * Ts) * u)) + round(c3 * u3)) + round(c4 * u4));
+  return round(s + round(c5 * u5));
 }
 
-function s5pp_u(c3: number, c4: number, c5: number, u: number): number {
+function s5pp_u(c3: number, c4: number, c5: number, u: number, round: Round): number {
   // d²/du² (c3 u³ + c4 u⁴ + c5 u⁵) = 6*c3*u + 12*c4*u² + 20*c5*u³
-  return 6.0 * c3 * u + 12.0 * c4 * u * u + 20.0 * c5 * u * u * u;
+  const term3 = round(round(6.0 * c3) * u);
+  const term4 = round(round(round(12.0 * c4) * u) * u);
+  const term5 = round(round(round(round(20.0 * c5) * u) * u) * u);
+  return round(round(term3 + term4) + term5);
 }
 
-function K_u(s0: number, v0: number, Ts: number, u: number): number {
-  const um1 = 1.0 - u;
-  return u * u * u * (um1 * um1 * um1);
+function K_u(s0: number, v0: number, Ts: number, u: number, round: Round): number {
+  const um1 = round(1.0 - u);
+  return round(round(round(u * u) * u) * round(round(um1 * um1) * um1));
 }
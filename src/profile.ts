@@ -1,53 +1,253 @@
-import { trapezoidalProfile } from './trapezoidal.js';
+import { TrapezoidTimings, isDegenerateMove, trapezoidalProfile, trapezoidTimings } from './trapezoidal.js';
 import { poly6Profile } from './poly6.js';
+import { scurveProfile, scurveTimings } from './scurve.js';
+import { bezierProfile } from './bezier.js';
+import { ShaperType } from './shaper.js';
+import { NozzleModelType } from './nozzle.js';
+import { AdvanceAlgorithm } from './advance.js';
+import { Arithmetic, rounding } from './arithmetic.js';
 
-const filamentDiameter = 1.75; // mm
-const filamentArea = Math.PI * Math.pow(filamentDiameter / 2, 2); // mm²
+export const filamentArea = (filamentDiameter: number) => Math.PI * Math.pow(filamentDiameter / 2, 2); // mm²
+
+// A single planner block, as queued by the firmware planner
+export interface MotionBlock {
+  distance: number; // mm
+  rate: number; // mm/s
+  acceleration: number; // mm/s²
+  deceleration?: number; // mm/s², defaults to the acceleration
+  entrySpeed: number; // mm/s
+  exitSpeed: number; // mm/s
+  filamentPerMm?: number; // mm of filament per mm of travel, defaults to the line width/height ratio
+  axes?: [number, number, number]; // X, Y, Z deltas, mm, for blocks planned from a path or G-code
+}
+
+export type TrajectoryType = 'trapezoidal' | '6poly' | 'scurve' | 'bezier';
 
 export interface MotionParameters {
-  trajectory: 'trapezoidal' | '6poly';
+  trajectory: TrajectoryType;
   distance: number; // mm
   rate: number; // mm/s
   acceleration: number; // mm/s²
+  deceleration: number; // mm/s²
   accOvershoot: number; // factor
+  jerk: number; // mm/s³, S-curve only
   k: number; // linear advance
+  advanceAlgorithm: AdvanceAlgorithm; // how the advance term is applied
+  paSmoothTime: number; // s, Klipper's pressure_advance_smooth_time
   lineWidth: number; // mm
   layerHeight: number; // mm
   ftmFs: number; // Hz
   smoothingTime: number; // s
   ftmSmoothingOrder: number; // smoothing filter order
+  arithmetic: Arithmetic; // number format of the generators and the smoothing filter
+  shaper: ShaperType; // input shaper type
+  shaperFrequency: number; // Hz
+  shaperDamping: number; // damping ratio (zeta)
+  shaperStage: 'before-smoothing' | 'after-smoothing'; // where the shaper sits in the signal pipeline
+  nozzleModel: NozzleModelType; // model behind the effective trace
+  pressureTau: number; // s, physical nozzle model only
+  bowdenFrequency: number; // Hz, physical nozzle model only, 0 for a rigid filament path
+  bowdenDamping: number; // damping ratio, physical nozzle model only
+  meltFlowIndex: number; // physical nozzle model only, 1 for a Newtonian melt
+  filamentDiameter: number; // mm
+  maxVolumetricFlow: number; // mm³/s, hotend melt capacity
+  maxExtruderFeedrate: number; // mm/s
+  maxExtruderAcceleration: number; // mm/s²
+  maxExtruderJerk: number; // mm/s, largest speed change between samples, like Marlin's DEFAULT_EJERK
+  extruderStepsPerMm: number; // steps/mm
+  stepperIsrFrequency: number; // Hz, FTM_STEPPER_FS, at most one step per ISR tick
+  unretractLength: number; // mm of filament primed right before the line, 0 to disable
+  unretractSpeed: number; // mm/s
+  unretractAcceleration: number; // mm/s²
+  retractLength: number; // mm of filament pulled back right after the line, 0 to disable
+  retractSpeed: number; // mm/s
+  retractAcceleration: number; // mm/s²
+  blocks?: MotionBlock[]; // block sequence, replaces the single distance/rate/acceleration move when set
+}
+
+// Same defaults as the sliders in index.html
+export const defaultParameters: MotionParameters = {
+  trajectory: 'trapezoidal',
+  distance: 15,
+  rate: 100,
+  acceleration: 1000,
+  deceleration: 1000,
+  accOvershoot: 1.5,
+  jerk: 50000,
+  k: 0.04,
+  advanceAlgorithm: 'ftm',
+  paSmoothTime: 0.04,
+  lineWidth: 0.4,
+  layerHeight: 0.2,
+  ftmFs: 1000,
+  smoothingTime: 0,
+  ftmSmoothingOrder: 5,
+  arithmetic: 'float64',
+  shaper: 'none',
+  shaperFrequency: 40,
+  shaperDamping: 0.1,
+  shaperStage: 'before-smoothing',
+  nozzleModel: 'first-order',
+  pressureTau: 0.04,
+  bowdenFrequency: 0,
+  bowdenDamping: 0.2,
+  meltFlowIndex: 1,
+  filamentDiameter: 1.75,
+  maxVolumetricFlow: 15,
+  maxExtruderFeedrate: 25,
+  maxExtruderAcceleration: 10000,
+  maxExtruderJerk: 5,
+  extruderStepsPerMm: 500,
+  stepperIsrFrequency: 20000,
+  unretractLength: 0,
+  unretractSpeed: 30,
+  unretractAcceleration: 5000,
+  retractLength: 0,
+  retractSpeed: 40,
+  retractAcceleration: 5000,
+};
+
+// An extruder-only move from rest to rest; negative filament per mm pulls the filament back
+const extruderMove = (length: number, speed: number, acceleration: number, filamentPerMm: number): MotionBlock => ({
+  distance: length,
+  rate: speed,
+  acceleration,
+  entrySpeed: 0,
+  exitSpeed: 0,
+  filamentPerMm,
+  axes: [0, 0, 0],
+});
+
+// Blocks are assumed to come from a planner, i.e. entry/exit speeds are reachable within each block.
+// The optional unretract and retract wrap the line, like a slicer does around every extrusion.
+export function motionBlocks(params: MotionParameters): MotionBlock[] {
+  const { distance, rate, acceleration, deceleration } = params;
+  const line =
+    params.blocks && params.blocks.length > 0
+      ? params.blocks
+      : [{ distance, rate, acceleration, deceleration, entrySpeed: 0, exitSpeed: 0 }];
+  const { unretractLength, unretractSpeed, unretractAcceleration } = params;
+  const { retractLength, retractSpeed, retractAcceleration } = params;
+  return [
+    ...(unretractLength > 0 ? [extruderMove(unretractLength, unretractSpeed, unretractAcceleration, 1)] : []),
+    ...line,
+    ...(retractLength > 0 ? [extruderMove(retractLength, retractSpeed, retractAcceleration, -1)] : []),
+  ];
+}
+
+export interface MotionPlan {
+  profile: Float64Array; // extruder position per FTM sample, padded with standstill on both ends
+  phaseTimes: number[]; // s, block starts, accel ends, decel starts and the final block end
+  generatedEnd: number; // mm of filament, last sample the generators produced, before the closing sample
+}
+
+export function calculateMotionProfile(params: MotionParameters): Float64Array {
+  return calculateMotionPlan(params).profile;
+}
+
+// Block values as the firmware stores them
+export interface StoredBlock {
+  distance: number; // mm
+  rate: number; // mm/s
+  acceleration: number; // mm/s²
+  deceleration: number; // mm/s²
+  entrySpeed: number; // mm/s
+  exitSpeed: number; // mm/s
+  filamentPerMm: number; // mm of filament per mm of travel
+}
+
+export function storeBlock(block: MotionBlock, params: MotionParameters): StoredBlock {
+  const round = rounding(params.arithmetic);
+  const mmFilamentPerMmTravel = round((params.lineWidth * params.layerHeight) / filamentArea(params.filamentDiameter));
+  return {
+    distance: round(block.distance),
+    rate: round(block.rate),
+    acceleration: round(block.acceleration),
+    deceleration: round(block.deceleration ?? block.acceleration),
+    entrySpeed: round(block.entrySpeed),
+    exitSpeed: round(block.exitSpeed),
+    filamentPerMm: round(block.filamentPerMm ?? mmFilamentPerMmTravel),
+  };
+}
+
+export interface BlockProfile {
+  positions: number[]; // mm of travel into the block, one per FTM sample
+  timings: TrapezoidTimings;
 }
 
-export function calculateMotionProfile(params: MotionParameters): number[] {
-  const {
-    trajectory,
-    distance,
-    rate,
-    acceleration,
-    accOvershoot,
-    layerHeight,
-    ftmFs,
-    smoothingTime,
-    ftmSmoothingOrder,
-  } = params;
-  const dt = 1 / ftmFs;
-
-  let posProfile: number[];
+// Blocks the generators cannot travel, see isDegenerateMove; the S-curve also needs a jerk to ramp the acceleration
+export function isDegenerateBlock(block: StoredBlock, params: MotionParameters): boolean {
+  const { distance, rate, acceleration, deceleration } = block;
+  return (
+    isDegenerateMove(distance, rate, acceleration, deceleration) ||
+    (params.trajectory === 'scurve' && !(params.jerk > 0))
+  );
+}
+
+// Runs the configured trajectory generator over one block, sampling from startTime into the block.
+// Degenerate blocks have no samples and no duration.
+export function generateBlock(block: StoredBlock, params: MotionParameters, startTime: number): BlockProfile {
+  const { trajectory } = params;
+  const round = rounding(params.arithmetic);
+  const dt = round(1 / params.ftmFs);
+  const accOvershoot = round(params.accOvershoot);
+  const jerk = round(params.jerk);
+  const { entrySpeed, exitSpeed } = block;
+  const move = [block.distance, block.rate, block.acceleration, block.deceleration] as const;
+  if (isDegenerateBlock(block, params)) return { positions: [], timings: { T1: 0, T2: 0, T3: 0, nominal_speed: 0 } };
+
+  let positions: number[];
   if (trajectory === '6poly') {
-    posProfile = poly6Profile(distance, rate, acceleration, accOvershoot, dt);
+    positions = poly6Profile(...move, accOvershoot, dt, entrySpeed, exitSpeed, startTime, round);
+  } else if (trajectory === 'scurve') {
+    positions = scurveProfile(...move, jerk, dt, entrySpeed, exitSpeed, startTime, round);
+  } else if (trajectory === 'bezier') {
+    positions = bezierProfile(...move, dt, entrySpeed, exitSpeed, startTime, round);
   } else {
-    posProfile = trapezoidalProfile(distance, rate, acceleration, dt);
+    positions = trapezoidalProfile(...move, dt, entrySpeed, exitSpeed, startTime, round);
+  }
+  const timings =
+    trajectory === 'scurve'
+      ? scurveTimings(...move, jerk, entrySpeed, exitSpeed, round)
+      : trapezoidTimings(...move, entrySpeed, exitSpeed, round);
+  return { positions, timings };
+}
+
+export function calculateMotionPlan(params: MotionParameters): MotionPlan {
+  const round = rounding(params.arithmetic);
+  const dt = round(1 / params.ftmFs);
+
+  // Blocks are stitched on a single sample grid: the time left over at the end of a block
+  // carries into the next one, like the FTMotion trajectory generator does.
+  const posProfile: number[] = [];
+  const phaseTimes: number[] = [];
+  let startPos = 0;
+  let startTime = 0;
+  let blockStartTime = 0;
+  for (const block of motionBlocks(params)) {
+    const stored = storeBlock(block, params);
+    const { distance, filamentPerMm } = stored;
+    // Nothing to plan; the planner drops these too
+    if (isDegenerateBlock(stored, params)) continue;
+    const { positions, timings } = generateBlock(stored, params, startTime);
+    const { T1, T2, T3 } = timings;
+    for (const p of positions) posProfile.push(round(startPos + round(p * filamentPerMm)));
+    startTime = round(startTime + round(round(positions.length * dt) - round(round(T1 + T2) + T3)));
+    startPos = round(startPos + round(distance * filamentPerMm));
+    phaseTimes.push(blockStartTime, blockStartTime + T1, blockStartTime + T1 + T2);
+    blockStartTime += T1 + T2 + T3;
   }
-  const mmFilamentPerMmTravel = (params.lineWidth * layerHeight) / filamentArea;
+  phaseTimes.push(blockStartTime);
+  const generatedEnd = posProfile.length > 0 ? posProfile[posProfile.length - 1] : 0;
+  // The sample grid rarely lands on the end of the last block; one more sample holds the commanded end position
+  if (posProfile.length === 0 || posProfile[posProfile.length - 1] !== startPos) posProfile.push(startPos);
 
-  posProfile = posProfile.map((p) => p * mmFilamentPerMmTravel);
   const padLength = Math.floor(posProfile.length / 5);
 
-  const paddedProfile = [
-    ...Array(padLength).fill(posProfile.at(0)),
-    ...posProfile,
-    ...Array(padLength).fill(posProfile.at(-1)),
-  ];
+  const paddedProfile = new Float64Array(posProfile.length + 2 * padLength);
+  paddedProfile.fill(posProfile[0], 0, padLength);
+  paddedProfile.set(posProfile, padLength);
+  paddedProfile.fill(posProfile[posProfile.length - 1], padLength + posProfile.length);
 
-  return paddedProfile;
+  return { profile: paddedProfile, phaseTimes: phaseTimes.map((t) => t + padLength * dt), generatedEnd };
 }
@@ -0,0 +1,152 @@
+import { TrapezoidTimings, isDegenerateMove, lastSampleTime } from './trapezoidal.js';
+import { Round, exact } from './arithmetic.js';
+
+export interface SCurveTimings extends TrapezoidTimings {
+  Tj1: number; // jerk time at each end of the accel phase
+  Tj3: number; // jerk time at each end of the decel phase
+}
+
+// Jerk time of a symmetric jerk-limited speed change
+function jerkTime(speed_change: number, acceleration: number, jerk: number, round: Round): number {
+  return Math.min(round(acceleration / jerk), round(Math.sqrt(round(Math.max(speed_change, 0.0) / jerk))));
+}
+
+// Duration of a symmetric jerk-limited speed change
+function phaseTime(speed_change: number, acceleration: number, jerk: number, round: Round): number {
+  if (speed_change <= 0.0) return 0.0;
+  const Tj = jerkTime(speed_change, acceleration, jerk, round);
+  return round(Tj + round(speed_change / round(jerk * Tj)));
+}
+
+// Distance covered while changing speed from v0 to v1
+function phaseDistance(v0: number, v1: number, acceleration: number, jerk: number, round: Round): number {
+  return round(round(0.5 * round(v0 + v1)) * phaseTime(round(v1 - v0), acceleration, jerk, round));
+}
+
+// jerk * t³ / 6, the distance a jerk adds over t
+function jerkDistance(jerk: number, t: number, round: Round): number {
+  return round(round(round(round(jerk * t) * t) * t) / 6.0);
+}
+
+// Classic 7-phase jerk-limited S-curve: jerk up, constant accel, jerk down, coast and the mirrored decel
+export function scurveTimings(
+  distance: number,
+  rate: number,
+  acceleration: number,
+  deceleration: number,
+  jerk: number,
+  initial_speed: number,
+  final_speed: number,
+  round: Round = exact
+): SCurveTimings {
+  const travelled = (speed: number) =>
+    round(
+      phaseDistance(initial_speed, speed, acceleration, jerk, round) +
+        phaseDistance(final_speed, speed, deceleration, jerk, round)
+    );
+
+  let nominal_speed = rate;
+  if (travelled(nominal_speed) > distance) {
+    // Too short to reach the rate: bisect the highest reachable speed
+    let low = Math.max(initial_speed, final_speed);
+    let high = nominal_speed;
+    for (let i = 0; i < 60; i++) {
+      const mid = round(0.5 * round(low + high));
+      if (travelled(mid) > distance) high = mid;
+      else low = mid;
+    }
+    nominal_speed = low;
+  }
+
+  const T1 = phaseTime(round(nominal_speed - initial_speed), acceleration, jerk, round);
+  const T3 = phaseTime(round(nominal_speed - final_speed), deceleration, jerk, round);
+  const T2 = Math.max(0.0, round(round(distance - travelled(nominal_speed)) / nominal_speed));
+  const Tj1 = jerkTime(round(nominal_speed - initial_speed), acceleration, jerk, round);
+  const Tj3 = jerkTime(round(nominal_speed - final_speed), deceleration, jerk, round);
+
+  return { T1, T2, T3, nominal_speed, Tj1, Tj3 };
+}
+
+// Position t seconds into a symmetric jerk-limited speed change from v0 to v1 lasting Ta
+function phasePosition(t: number, v0: number, v1: number, Ta: number, Tj: number, jerk: number, round: Round): number {
+  const a_lim = round(jerk * Tj);
+  if (t < Tj) {
+    // Jerk up
+    return round(round(v0 * t) + jerkDistance(jerk, t, round));
+  } else if (t < round(Ta - Tj)) {
+    // Constant acceleration
+    const t_const = round(t - Tj);
+    const v_Tj = round(v0 + round(round(round(0.5 * jerk) * Tj) * Tj));
+    const jerk_up = round(round(v0 * Tj) + jerkDistance(jerk, Tj, round));
+    return round(round(jerk_up + round(v_Tj * t_const)) + round(round(round(0.5 * a_lim) * t_const) * t_const));
+  } else {
+    // Jerk down, mirrored from the end of the phase
+    const t_left = round(Ta - t);
+    return round(
+      round(round(round(0.5 * round(v0 + v1)) * Ta) - round(v1 * t_left)) + jerkDistance(jerk, t_left, round)
+    );
+  }
+}
+
+export function scurveProfile(
+  distance: number,
+  rate: number,
+  acceleration: number,
+  deceleration: number,
+  jerk: number,
+  dt: number,
+  initial_speed = 0.0,
+  final_speed = 0.0,
+  startTime = 0.0,
+  round: Round = exact
+): number[] {
+  const profile: number[] = [];
+  if (isDegenerateMove(distance, rate, acceleration, deceleration) || !(jerk > 0)) return profile;
+
+  const { T1, T2, T3, nominal_speed, Tj1, Tj3 } = scurveTimings(
+    distance,
+    rate,
+    acceleration,
+    deceleration,
+    jerk,
+    initial_speed,
+    final_speed,
+    round
+  );
+
+  const pos_before_coast = round(round(0.5 * round(initial_speed + nominal_speed)) * T1);
+  const pos_after_coast = round(pos_before_coast + round(nominal_speed * T2));
+  const decel_distance = round(round(0.5 * round(nominal_speed + final_speed)) * T3);
+
+  // Generate profile points - calculate positions
+  let time = startTime;
+  const decel_start = round(T1 + T2);
+  const totalTime = round(decel_start + T3);
+
+  while (time <= lastSampleTime(totalTime, dt)) {
+    const now = Math.min(time, totalTime);
+    let position: number;
+
+    if (now < T1) {
+      // Accel phase
+      position = phasePosition(now, initial_speed, nominal_speed, T1, Tj1, jerk, round);
+    } else if (now <= decel_start) {
+      // Coast
+      position = round(pos_before_coast + round(nominal_speed * round(now - T1)));
+    } else {
+      // Decel phase: an accel from the final speed, run backwards in time
+      const t_left = round(totalTime - now);
+      position = round(
+        round(pos_after_coast + decel_distance) -
+          phasePosition(t_left, final_speed, nominal_speed, T3, Tj3, jerk, round)
+      );
+    }
+
+    profile.push(position);
+
+    // The sample time accumulates, as in the firmware loop
+    time = round(time + dt);
+  }
+
+  return profile;
+}
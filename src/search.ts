@@ -0,0 +1,100 @@
+import { MotionParameters } from './profile.js';
+import { ExtrusionMetrics } from './metrics.js';
+import { OptimizerOptions, OptimizerResult, SweepRange, optimize } from './optimizer.js';
+import { SweepParameter, SweepResult, sweep } from './sweep.js';
+import { SearchResponse } from './searchWorker.js';
+
+// The grid searches of the optimizer and parameter sweep panels; each runs the trace pipeline hundreds of times
+export type SearchJob =
+  | { kind: 'optimize'; params: MotionParameters; options: OptimizerOptions }
+  | {
+      kind: 'sweep';
+      params: MotionParameters;
+      x: SweepParameter;
+      y: SweepParameter;
+      metric: keyof ExtrusionMetrics;
+      xRange: SweepRange;
+      yRange: SweepRange;
+    };
+
+export type SearchRequest = SearchJob & { id: number };
+
+export function runSearch(job: SearchJob): OptimizerResult | SweepResult {
+  if (job.kind === 'optimize') return optimize(job.params, job.options);
+  return sweep(job.params, job.x, job.y, job.metric, job.xRange, job.yRange);
+}
+
+interface PendingSearch {
+  job: SearchJob;
+  resolve: (result: OptimizerResult | SweepResult) => void;
+  reject: (error: Error) => void;
+}
+
+// Runs searches in a Web Worker, in the order they were started, so the page stays responsive meanwhile.
+// Falls back to the main thread where module workers are not available.
+export class SearchClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private pending = new Map<number, PendingSearch>();
+
+  constructor() {
+    try {
+      this.worker = new Worker(new URL('./searchWorker.js', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<SearchResponse>) => this.onResult(event.data));
+      this.worker.addEventListener('error', () => this.fallBackToMainThread());
+    } catch {
+      this.worker = null;
+    }
+  }
+
+  optimize(params: MotionParameters, options: OptimizerOptions): Promise<OptimizerResult> {
+    return this.run({ kind: 'optimize', params, options }) as Promise<OptimizerResult>;
+  }
+
+  sweep(
+    params: MotionParameters,
+    x: SweepParameter,
+    y: SweepParameter,
+    metric: keyof ExtrusionMetrics,
+    xRange: SweepRange,
+    yRange: SweepRange
+  ): Promise<SweepResult> {
+    return this.run({ kind: 'sweep', params, x, y, metric, xRange, yRange }) as Promise<SweepResult>;
+  }
+
+  private run(job: SearchJob): Promise<OptimizerResult | SweepResult> {
+    // The executor turns a throwing search into a rejection
+    if (!this.worker) return new Promise((resolve) => resolve(runSearch(job)));
+
+    return new Promise((resolve, reject) => {
+      const id = ++this.nextId;
+      this.pending.set(id, { job, resolve, reject });
+      const request: SearchRequest = { ...job, id };
+      this.worker!.postMessage(request);
+    });
+  }
+
+  private onResult(response: SearchResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if ('error' in response) {
+      pending.reject(new Error(response.error));
+    } else {
+      pending.resolve(response.result);
+    }
+  }
+
+  private fallBackToMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    for (const { job, resolve, reject } of this.pending.values()) {
+      try {
+        resolve(runSearch(job));
+      } catch (error) {
+        reject(error as Error);
+      }
+    }
+    this.pending.clear();
+  }
+}
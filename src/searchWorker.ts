@@ -0,0 +1,17 @@
+import { OptimizerResult } from './optimizer.js';
+import { SweepResult } from './sweep.js';
+import { SearchRequest, runSearch } from './search.js';
+
+export type SearchResponse = { id: number; result: OptimizerResult | SweepResult } | { id: number; error: string };
+
+// Runs one optimizer or sweep grid search per message, off the main thread
+self.addEventListener('message', (event: MessageEvent<SearchRequest>) => {
+  const { id, ...job } = event.data;
+  let response: SearchResponse;
+  try {
+    response = { id, result: runSearch(job) };
+  } catch (error) {
+    response = { id, error: (error as Error).message };
+  }
+  postMessage(response);
+});
@@ -0,0 +1,65 @@
+export type ShaperType = 'none' | 'zv' | 'zvd' | 'zvdd' | 'mzv' | 'ei';
+
+export interface ShaperImpulses {
+  amplitudes: number[]; // normalized to sum 1
+  times: number[]; // s
+}
+
+// Standard input shaper definitions, as used by Marlin FTMotion (and Klipper)
+export function shaperImpulses(type: ShaperType, frequency: number, zeta: number): ShaperImpulses {
+  const df = Math.sqrt(1.0 - zeta * zeta);
+  const K = Math.exp((-zeta * Math.PI) / df);
+  const td = 1.0 / (frequency * df); // damped period
+
+  let amplitudes: number[];
+  let times: number[];
+  switch (type) {
+    case 'zv':
+      amplitudes = [1, K];
+      times = [0, 0.5 * td];
+      break;
+    case 'zvd':
+      amplitudes = [1, 2 * K, K * K];
+      times = [0, 0.5 * td, td];
+      break;
+    case 'zvdd':
+      amplitudes = [1, 3 * K, 3 * K * K, K * K * K];
+      times = [0, 0.5 * td, td, 1.5 * td];
+      break;
+    case 'mzv': {
+      const Km = Math.exp((-0.75 * zeta * Math.PI) / df);
+      const a1 = 1.0 - 1.0 / Math.SQRT2;
+      amplitudes = [a1, (Math.SQRT2 - 1.0) * Km, a1 * Km * Km];
+      times = [0, 0.375 * td, 0.75 * td];
+      break;
+    }
+    case 'ei': {
+      const vtol = 0.05; // vibration tolerance
+      const a1 = 0.25 * (1.0 + vtol);
+      amplitudes = [a1, 0.5 * (1.0 - vtol) * K, a1 * K * K];
+      times = [0, 0.5 * td, td];
+      break;
+    }
+    default:
+      amplitudes = [1];
+      times = [0];
+  }
+
+  const sum = amplitudes.reduce((a, b) => a + b, 0);
+  return { amplitudes: amplitudes.map((a) => a / sum), times };
+}
+
+// Convolve positions with the shaper impulses. Like the firmware, impulse delays are rounded to whole samples.
+export function shape(
+  positions: Float64Array,
+  type: ShaperType,
+  frequency: number,
+  zeta: number,
+  dt: number
+): Float64Array {
+  if (type === 'none' || positions.length === 0) return positions;
+  const { amplitudes, times } = shaperImpulses(type, frequency, zeta);
+  const delays = times.map((t) => Math.round(t / dt));
+
+  return positions.map((_, i) => amplitudes.reduce((sum, a, j) => sum + a * positions[Math.max(i - delays[j], 0)], 0));
+}
@@ -0,0 +1,155 @@
+import { MotionParameters, calculateMotionPlan } from './profile.js';
+import { Traces, calculateAllTraces } from './traces.js';
+import { MotionDiagnostics, diagnoseMotion } from './diagnostics.js';
+import { LimitViolation, findLimitViolations } from './machine.js';
+import { ArithmeticDivergence, arithmeticDivergence } from './divergence.js';
+import { SimulationFailure, SimulationRequest, SimulationResponse } from './simulationWorker.js';
+
+export interface SimulationResult {
+  profile: Float64Array;
+  phaseTimes: number[];
+  traces: Traces;
+  diagnostics: MotionDiagnostics;
+  violations: LimitViolation[]; // machine limits exceeded by the with-advance signal
+  divergence: ArithmeticDivergence | null; // against a float64 run, null when that is the arithmetic in use
+}
+
+interface PendingRun {
+  resolve: (result: SimulationResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+// Results kept for recently seen parameter sets, e.g. when a slider is dragged back and forth
+const cacheSize = 32;
+
+// Computes traces in a Web Worker, one run at a time. While a run is busy only the latest request waits for it,
+// so dragging a slider never builds up a backlog: waiting requests that get replaced resolve to null without
+// running, as does a run whose parameters were overtaken by a cache hit. A run that throws rejects.
+// Falls back to the main thread where module workers are not available.
+export class SimulationClient {
+  private worker: Worker | null = null;
+  private nextId = 0;
+  private running: ({ id: number; key: string } & PendingRun) | null = null;
+  private queued: ({ params: MotionParameters } & PendingRun) | null = null;
+  private cache = new Map<string, SimulationResult>();
+
+  constructor() {
+    try {
+      this.worker = new Worker(new URL('./simulationWorker.js', import.meta.url), { type: 'module' });
+      this.worker.addEventListener('message', (event: MessageEvent<SimulationResponse | SimulationFailure>) =>
+        this.onResult(event.data)
+      );
+      this.worker.addEventListener('error', () => this.fallBackToMainThread());
+    } catch {
+      this.worker = null;
+    }
+  }
+
+  run(params: MotionParameters): Promise<SimulationResult | null> {
+    const key = JSON.stringify(params);
+    const cached = this.cache.get(key);
+    // Anything queued or running is stale now
+    this.queued?.resolve(null);
+    this.queued = null;
+    if (cached) {
+      this.nextId++;
+      return Promise.resolve(cached);
+    }
+    // The executor turns a throwing compute() into a rejection
+    if (!this.worker) return new Promise((resolve) => resolve(this.compute(key, params)));
+
+    return new Promise((resolve, reject) => {
+      if (this.running) {
+        this.queued = { params, resolve, reject };
+      } else {
+        this.start(key, params, { resolve, reject });
+      }
+    });
+  }
+
+  private start(key: string, params: MotionParameters, pending: PendingRun): void {
+    const id = ++this.nextId;
+    this.running = { id, key, ...pending };
+    const request: SimulationRequest = { id, params };
+    this.worker!.postMessage(request);
+  }
+
+  private onResult(response: SimulationResponse | SimulationFailure): void {
+    if (!this.running || this.running.id !== response.id) return;
+    const { id, key, resolve, reject } = this.running;
+    this.running = null;
+    if ('error' in response) {
+      reject(new Error(response.error));
+    } else {
+      const { profile, phaseTimes, traces, diagnostics, violations, divergence } = response;
+      const result = { profile, phaseTimes, traces, diagnostics, violations, divergence };
+      this.store(key, result);
+      // A cache hit served since then is newer than this result
+      resolve(id === this.nextId ? result : null);
+    }
+
+    if (this.queued) {
+      const { params, ...pending } = this.queued;
+      this.queued = null;
+      // Often the same parameters again, e.g. the change event after the last input event of a slider
+      const queuedKey = JSON.stringify(params);
+      const queuedCached = this.cache.get(queuedKey);
+      if (queuedCached) {
+        pending.resolve(queuedCached);
+      } else {
+        this.start(queuedKey, params, pending);
+      }
+    }
+  }
+
+  private fallBackToMainThread(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.running) {
+      const { key, ...pending } = this.running;
+      this.running = null;
+      if (this.queued) {
+        pending.resolve(null);
+      } else {
+        this.settle(pending, () => this.compute(key, JSON.parse(key)));
+      }
+    }
+    if (this.queued) {
+      const { params, ...pending } = this.queued;
+      this.queued = null;
+      this.settle(pending, () => this.compute(JSON.stringify(params), params));
+    }
+  }
+
+  // Runs inside the worker's error event, where a throw would leave the run pending forever
+  private settle(pending: PendingRun, compute: () => SimulationResult): void {
+    try {
+      pending.resolve(compute());
+    } catch (error) {
+      pending.reject(error as Error);
+    }
+  }
+
+  private compute(key: string, params: MotionParameters): SimulationResult {
+    const plan = calculateMotionPlan(params);
+    const { profile, phaseTimes } = plan;
+    const traces = calculateAllTraces(profile, params);
+    const result = {
+      profile,
+      phaseTimes,
+      traces,
+      diagnostics: diagnoseMotion(params, plan),
+      violations: findLimitViolations(traces, params),
+      divergence: params.arithmetic !== 'float64' ? arithmeticDivergence(traces, params) : null,
+    };
+    this.store(key, result);
+    return result;
+  }
+
+  private store(key: string, result: SimulationResult): void {
+    this.cache.delete(key);
+    this.cache.set(key, result);
+    // Maps iterate in insertion order, so the first key is the least recently stored
+    if (this.cache.size > cacheSize) this.cache.delete(this.cache.keys().next().value!);
+  }
+}
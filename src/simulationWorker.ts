@@ -0,0 +1,48 @@
+import { MotionParameters, calculateMotionPlan } from './profile.js';
+import { calculateAllTraces } from './traces.js';
+import { MotionDiagnostics, diagnoseMotion } from './diagnostics.js';
+import { LimitViolation, findLimitViolations } from './machine.js';
+import { ArithmeticDivergence, arithmeticDivergence } from './divergence.js';
+
+export interface SimulationRequest {
+  id: number;
+  params: MotionParameters;
+}
+
+export interface SimulationResponse {
+  id: number;
+  profile: Float64Array;
+  phaseTimes: number[];
+  traces: ReturnType<typeof calculateAllTraces>;
+  diagnostics: MotionDiagnostics;
+  violations: LimitViolation[];
+  divergence: ArithmeticDivergence | null;
+}
+
+// A run that threw, e.g. on parameters no generator can handle
+export interface SimulationFailure {
+  id: number;
+  error: string;
+}
+
+// Runs the motion plan and the trace pipeline off the main thread; the sample buffers are transferred, not copied
+self.addEventListener('message', (event: MessageEvent<SimulationRequest>) => {
+  const { id, params } = event.data;
+  try {
+    const plan = calculateMotionPlan(params);
+    const { profile, phaseTimes } = plan;
+    const traces = calculateAllTraces(profile, params);
+    const diagnostics = diagnoseMotion(params, plan);
+    const violations = findLimitViolations(traces, params);
+    const divergence = params.arithmetic !== 'float64' ? arithmeticDivergence(traces, params) : null;
+    const buffers = [profile, ...traces.position, ...traces.velocity, ...traces.acceleration]
+      .concat(divergence ? [divergence.planned, divergence.withAdvance] : [])
+      .map((trace) => trace.buffer);
+    const response: SimulationResponse = { id, profile, phaseTimes, traces, diagnostics, violations, divergence };
+    postMessage(response, { transfer: [...new Set(buffers)] });
+  } catch (error) {
+    // Reported back rather than raised, which would take the worker down for every later run
+    const failure: SimulationFailure = { id, error: (error as Error).message };
+    postMessage(failure);
+  }
+});
@@ -1,21 +1,31 @@
-export function smoothen(positions: number[], s_time: number, dt: number, fs: number, order: number): number[] {
+import { Round, exact } from './arithmetic.js';
+
+export function smoothen(
+  positions: Float64Array,
+  s_time: number,
+  dt: number,
+  fs: number,
+  order: number,
+  round: Round = exact
+): Float64Array {
   let alpha = 0;
   let delay_samples = 0;
-  alpha = 1.0 - Math.exp((-dt * order) / s_time);
-  delay_samples = s_time * fs;
-  if (alpha > 0) {
+  alpha = round(1.0 - round(Math.exp(round(round(-dt * order) / s_time))));
+  // Whole samples: the smoothing time is rarely a multiple of the sample time
+  delay_samples = Math.round(s_time * fs);
+  if (alpha > 0 && positions.length > 0) {
     const smoothing_pass = new Array(order).fill(0);
-    const padCount = Math.round(delay_samples);
-    const padded = [...positions, ...Array(padCount).fill(positions.at(-1)!)];
-    const smoothed: number[] = [];
-    for (let val of padded) {
+    const padded = new Float64Array(positions.length + delay_samples).fill(positions[positions.length - 1]);
+    padded.set(positions);
+    const smoothed = new Float64Array(padded.length);
+    padded.forEach((val, n) => {
       let smooth_val = val;
       for (let i = 0; i < smoothing_pass.length; ++i) {
-        smoothing_pass[i] += (smooth_val - smoothing_pass[i]) * alpha;
+        smoothing_pass[i] = round(smoothing_pass[i] + round(round(smooth_val - smoothing_pass[i]) * alpha));
         smooth_val = smoothing_pass[i];
       }
-      smoothed.push(smooth_val);
-    }
+      smoothed[n] = smooth_val;
+    });
     return smoothed.slice(delay_samples);
   }
   return positions;
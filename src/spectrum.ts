@@ -0,0 +1,78 @@
+export interface Spectrum {
+  frequencies: Float64Array; // Hz, 0 to fs/2
+  magnitudes: Float64Array; // |X(f)|, in signal units × s
+}
+
+// In-place iterative radix-2 FFT; the length must be a power of two
+function fft(re: Float64Array, im: Float64Array): void {
+  const n = re.length;
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    for (let start = 0; start < n; start += size) {
+      for (let k = 0; k < size / 2; k++) {
+        const cos = Math.cos(angle * k);
+        const sin = Math.sin(angle * k);
+        const a = start + k;
+        const b = a + size / 2;
+        const tre = re[b] * cos - im[b] * sin;
+        const tim = re[b] * sin + im[b] * cos;
+        re[b] = re[a] - tre;
+        im[b] = im[a] - tim;
+        re[a] += tre;
+        im[a] += tim;
+      }
+    }
+  }
+}
+
+// Magnitude of the Fourier transform of a sampled signal, zero padded to a power of two.
+// The traces start and end at rest, so no window is applied.
+export function amplitudeSpectrum(signal: Float64Array, fs: number): Spectrum {
+  const n = Math.pow(2, Math.ceil(Math.log2(Math.max(signal.length, 2))));
+  const re = new Float64Array(n);
+  re.set(signal);
+  const im = new Float64Array(n);
+  fft(re, im);
+
+  const frequencies = new Float64Array(n / 2 + 1);
+  const magnitudes = new Float64Array(n / 2 + 1);
+  for (let k = 0; k <= n / 2; k++) {
+    frequencies[k] = (k * fs) / n;
+    magnitudes[k] = Math.hypot(re[k], im[k]) / fs;
+  }
+  return { frequencies, magnitudes };
+}
+
+// |H(f)| of smoothen(): order cascaded one-pole low-pass filters
+export function smoothingResponse(
+  frequencies: Float64Array,
+  smoothingTime: number,
+  fs: number,
+  order: number
+): Float64Array {
+  const alpha = 1.0 - Math.exp(-order / (smoothingTime * fs));
+  return frequencies.map((f) => {
+    const omega = (2 * Math.PI * f) / fs;
+    // |alpha / (1 - (1 - alpha) e^-jω)|
+    const re = 1 - (1 - alpha) * Math.cos(omega);
+    const im = (1 - alpha) * Math.sin(omega);
+    return Math.pow(alpha / Math.hypot(re, im), order);
+  });
+}
+
+// |H(f)| of a symmetric triangular window spanning smoothTime, i.e. two cascaded boxcars of half the width
+export function triangularResponse(frequencies: Float64Array, smoothTime: number): Float64Array {
+  return frequencies.map((f) => {
+    const x = Math.PI * f * 0.5 * smoothTime;
+    return x === 0 ? 1 : Math.pow(Math.sin(x) / x, 2);
+  });
+}
@@ -0,0 +1,185 @@
+import { MotionParameters } from './profile.js';
+import { Traces, extent } from './traces.js';
+import { Spectrum, amplitudeSpectrum, smoothingResponse, triangularResponse } from './spectrum.js';
+
+// Lowest level shown, relative to the planned peak
+const floorDb = -80;
+
+const toDb = (magnitude: number, reference: number) => 20 * Math.log10(Math.max(magnitude / reference, 1e-12));
+
+// FFT magnitude of the planned vs with-advance extruder velocity and acceleration,
+// with the frequency response of the smoothing filter overlaid
+export class SpectrumPlot {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private params: MotionParameters | null = null;
+  private levels: { label: string; planned: Spectrum; withAdvance: Spectrum; response: Float64Array | null }[] = [];
+  private filterLabel = '';
+
+  constructor(canvasId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+    window.addEventListener('resize', () => this.draw());
+  }
+
+  update(traces: Traces, params: MotionParameters): void {
+    this.params = params;
+    const { ftmFs, smoothingTime, ftmSmoothingOrder, advanceAlgorithm, paSmoothTime } = params;
+    // Frequency response of the filter the selected advance algorithm applies, if any
+    const filter =
+      advanceAlgorithm === 'ftm' && smoothingTime > 0
+        ? {
+            label: 'Smoothing filter |H(f)|',
+            response: (f: Float64Array) => smoothingResponse(f, smoothingTime, ftmFs, ftmSmoothingOrder),
+          }
+        : advanceAlgorithm === 'klipper' && paSmoothTime > 0
+          ? {
+              label: 'PA smooth_time window |H(f)|',
+              response: (f: Float64Array) => triangularResponse(f, paSmoothTime),
+            }
+          : null;
+    this.filterLabel = filter?.label ?? '';
+    this.levels = [
+      { traces: traces.velocity, label: 'Velocity spectrum (dB)' },
+      { traces: traces.acceleration, label: 'Acceleration spectrum (dB)' },
+    ].map(({ traces: [planned, withAdvance], label }) => {
+      const plannedSpectrum = amplitudeSpectrum(planned, ftmFs);
+      return {
+        label,
+        planned: plannedSpectrum,
+        withAdvance: amplitudeSpectrum(withAdvance, ftmFs),
+        response: filter ? filter.response(plannedSpectrum.frequencies) : null,
+      };
+    });
+    this.draw();
+  }
+
+  draw(): void {
+    if (this.levels.length === 0 || !this.params || this.canvas.offsetParent === null) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.canvas.width = rect.width * window.devicePixelRatio;
+    this.canvas.height = rect.height * window.devicePixelRatio;
+    this.ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0);
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const { ftmFs } = this.params;
+    const plotHeight = rect.height / 2;
+
+    this.levels.forEach(({ label, planned, withAdvance, response }, plotIndex) => {
+      const reference = extent(planned.magnitudes).max || 1;
+      const yOffset = plotIndex * plotHeight;
+
+      this.drawAxes(rect.width, yOffset, plotHeight, ftmFs / 2, label);
+      this.drawCurve(
+        planned.frequencies,
+        planned.magnitudes.map((m) => toDb(m, reference)),
+        ftmFs / 2,
+        yOffset,
+        plotHeight,
+        'green'
+      );
+      this.drawCurve(
+        withAdvance.frequencies,
+        withAdvance.magnitudes.map((m) => toDb(m, reference)),
+        ftmFs / 2,
+        yOffset,
+        plotHeight,
+        'blue'
+      );
+      if (response) {
+        this.drawCurve(
+          planned.frequencies,
+          response.map((m) => toDb(m, 1)),
+          ftmFs / 2,
+          yOffset,
+          plotHeight,
+          'gray',
+          true
+        );
+      }
+
+      const legend = [
+        { label: 'Planned', color: 'green' },
+        { label: 'With advance', color: 'blue' },
+        ...(response ? [{ label: this.filterLabel, color: 'gray' }] : []),
+      ];
+      this.ctx.font = '10px Arial';
+      this.ctx.textAlign = 'right';
+      legend.forEach(({ label, color }, i) => {
+        this.ctx.fillStyle = color;
+        this.ctx.fillText(label, rect.width - 50, yOffset + 30 + i * 10);
+      });
+      this.ctx.textAlign = 'left';
+    });
+  }
+
+  private x(frequency: number, maxFrequency: number, width: number): number {
+    return 50 + (frequency / maxFrequency) * (width - 100);
+  }
+
+  // Clamped to the 0 dB..floorDb axis, so levels above the reference stay out of the title
+  private y(db: number, yOffset: number, plotHeight: number): number {
+    return yOffset + 20 + (Math.max(Math.min(-db, -floorDb), 0) / -floorDb) * (plotHeight - 40);
+  }
+
+  private drawAxes(width: number, yOffset: number, plotHeight: number, maxFrequency: number, label: string): void {
+    this.ctx.strokeStyle = '#333';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(50, yOffset + 20);
+    this.ctx.lineTo(50, yOffset + plotHeight - 20);
+    this.ctx.lineTo(width - 50, yOffset + plotHeight - 20);
+    this.ctx.stroke();
+
+    this.ctx.font = '10px Arial';
+    this.ctx.fillStyle = '#333';
+    this.ctx.textAlign = 'right';
+    for (let db = 0; db >= floorDb; db -= 20) {
+      const y = this.y(db, yOffset, plotHeight);
+      this.ctx.strokeStyle = '#eee';
+      this.ctx.beginPath();
+      this.ctx.moveTo(50, y);
+      this.ctx.lineTo(width - 50, y);
+      this.ctx.stroke();
+      this.ctx.fillText(`${db}`, 45, y + 4);
+    }
+
+    this.ctx.textAlign = 'center';
+    const step = maxFrequency > 250 ? 100 : 50;
+    for (let f = 0; f <= maxFrequency; f += step) {
+      this.ctx.fillText(`${f} Hz`, this.x(f, maxFrequency, width), yOffset + plotHeight - 8);
+    }
+    this.ctx.textAlign = 'left';
+
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText(label, 45, yOffset + 15);
+  }
+
+  private drawCurve(
+    frequencies: Float64Array,
+    db: Float64Array,
+    maxFrequency: number,
+    yOffset: number,
+    plotHeight: number,
+    color: string,
+    dashed = false
+  ): void {
+    const width = this.canvas.width / window.devicePixelRatio;
+    this.ctx.save();
+    this.ctx.strokeStyle = color;
+    this.ctx.lineWidth = dashed ? 1.5 : 1;
+    if (dashed) this.ctx.setLineDash([6, 4]);
+    this.ctx.beginPath();
+    frequencies.forEach((f, i) => {
+      const x = this.x(f, maxFrequency, width);
+      const y = this.y(db[i], yOffset, plotHeight);
+      if (i === 0) {
+        this.ctx.moveTo(x, y);
+      } else {
+        this.ctx.lineTo(x, y);
+      }
+    });
+    this.ctx.stroke();
+    this.ctx.restore();
+  }
+}
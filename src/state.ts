@@ -0,0 +1,127 @@
+import { MotionBlock, MotionParameters, defaultParameters } from './profile.js';
+
+export type Presets = Record<string, MotionParameters>;
+
+const presetsStorageKey = 'ftm-sim-presets';
+
+// One hash entry per parameter, e.g. #distance=15&rate=100; blocks are stored as JSON
+export function paramsToHash(params: MotionParameters): string {
+  const entries = Object.entries(params)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, typeof value === 'object' ? JSON.stringify(value) : String(value)]);
+  return new URLSearchParams(entries).toString();
+}
+
+// Parses the parameters present in a hash; unknown keys and malformed values are ignored
+export function paramsFromHash(hash: string): Partial<MotionParameters> {
+  const entries = new URLSearchParams(hash.replace(/^#/, ''));
+  return sanitizeParams(Object.fromEntries(entries));
+}
+
+type ChoiceParameter = 'trajectory' | 'advanceAlgorithm' | 'arithmetic' | 'shaper' | 'shaperStage' | 'nozzleModel';
+
+// Allowed values of the string parameters, the same as the select options in index.html
+export const parameterChoices: { [K in ChoiceParameter]: MotionParameters[K][] } = {
+  trajectory: ['trapezoidal', '6poly', 'scurve', 'bezier'],
+  advanceAlgorithm: ['ftm', 'classic', 'klipper'],
+  arithmetic: ['float64', 'float32'],
+  shaper: ['none', 'zv', 'zvd', 'zvdd', 'mzv', 'ei'],
+  shaperStage: ['before-smoothing', 'after-smoothing'],
+  nozzleModel: ['first-order', 'physical'],
+};
+
+// Finite numbers, or strings holding one, e.g. from a URL hash
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+  return Number.isFinite(number) ? number : undefined;
+}
+
+function toBlock(value: unknown): MotionBlock | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const raw = value as Record<string, unknown>;
+  const block: Record<string, unknown> = {};
+  for (const key of ['distance', 'rate', 'acceleration', 'entrySpeed', 'exitSpeed']) {
+    block[key] = toNumber(raw[key]);
+    if (block[key] === undefined) return undefined;
+  }
+  for (const key of ['deceleration', 'filamentPerMm']) {
+    if (raw[key] === undefined) continue;
+    block[key] = toNumber(raw[key]);
+    if (block[key] === undefined) return undefined;
+  }
+  if (raw.axes !== undefined) {
+    const axes = Array.isArray(raw.axes) && raw.axes.length === 3 ? raw.axes.map(toNumber) : [];
+    if (axes.length !== 3 || axes.includes(undefined)) return undefined;
+    block.axes = axes;
+  }
+  return block as unknown as MotionBlock;
+}
+
+function toBlocks(value: unknown): MotionBlock[] | undefined {
+  let blocks: unknown;
+  try {
+    blocks = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    return undefined;
+  }
+  if (!Array.isArray(blocks)) return undefined;
+  const parsed = blocks.map(toBlock);
+  return parsed.includes(undefined) ? undefined : (parsed as MotionBlock[]);
+}
+
+// Coerces the known parameters of a parsed hash, preset or params file; invalid lists the keys with a value
+// that is not a finite number, a valid block list or one of the choices
+export function parseParams(raw: Record<string, unknown>): { params: Partial<MotionParameters>; invalid: string[] } {
+  const params: Record<string, unknown> = {};
+  const invalid: string[] = [];
+  for (const [key, value] of Object.entries(raw)) {
+    let parsed: unknown;
+    if (key === 'blocks') {
+      parsed = toBlocks(value);
+    } else if (key in parameterChoices) {
+      const choices: readonly unknown[] = parameterChoices[key as ChoiceParameter];
+      parsed = choices.includes(value) ? value : undefined;
+    } else if (key in defaultParameters) {
+      parsed = toNumber(value);
+    } else {
+      continue;
+    }
+    if (parsed === undefined) {
+      invalid.push(key);
+    } else {
+      params[key] = parsed;
+    }
+  }
+  return { params: params as Partial<MotionParameters>, invalid };
+}
+
+// Malformed values are dropped, so those parameters keep their current value
+const sanitizeParams = (raw: Record<string, unknown>) => parseParams(raw).params;
+
+export function loadPresets(): Presets {
+  try {
+    return presetsFromJson(localStorage.getItem(presetsStorageKey) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+export function savePresets(presets: Presets): void {
+  localStorage.setItem(presetsStorageKey, presetsToJson(presets));
+}
+
+export function presetsToJson(presets: Presets): string {
+  return JSON.stringify(presets, null, 2);
+}
+
+// Presets saved by older versions may miss newer parameters; those take their defaults
+export function presetsFromJson(json: string): Presets {
+  const raw = JSON.parse(json);
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) throw new Error('Presets must be a JSON object');
+  return Object.fromEntries(
+    Object.entries(raw as Record<string, Record<string, unknown>>).map(([name, params]) => [
+      name,
+      { ...defaultParameters, ...sanitizeParams(params) },
+    ])
+  );
+}
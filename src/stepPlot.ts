@@ -0,0 +1,129 @@
+import { MotionParameters } from './profile.js';
+import { Traces } from './traces.js';
+import { StepSimulation, maxStepsPerSample, simulateSteps } from './steps.js';
+
+// Step rate and quantization error of the with-advance extruder signal, with direction reversals
+// and ISR overruns marked
+export class StepPlot {
+  private canvas: HTMLCanvasElement;
+  private ctx: CanvasRenderingContext2D;
+  private params: MotionParameters | null = null;
+  private simulation: StepSimulation | null = null;
+
+  constructor(canvasId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    this.ctx = this.canvas.getContext('2d')!;
+    window.addEventListener('resize', () => this.draw());
+  }
+
+  update(traces: Traces, params: MotionParameters): void {
+    this.params = params;
+    this.simulation = simulateSteps(
+      traces.position[1],
+      params.extruderStepsPerMm,
+      params.ftmFs,
+      params.stepperIsrFrequency
+    );
+    this.draw();
+  }
+
+  draw(): void {
+    if (!this.simulation || !this.params || this.canvas.offsetParent === null) return;
+    const rect = this.canvas.getBoundingClientRect();
+    this.canvas.width = rect.width * window.devicePixelRatio;
+    this.canvas.height = rect.height * window.devicePixelRatio;
+    this.ctx.setTransform(window.devicePixelRatio, 0, 0, window.devicePixelRatio, 0, 0);
+    this.ctx.clearRect(0, 0, rect.width, rect.height);
+
+    const { extruderStepsPerMm, ftmFs, stepperIsrFrequency } = this.params;
+    const { stepRate, quantizationError, reversals, overruns } = this.simulation;
+    const maxStepRate = maxStepsPerSample(stepperIsrFrequency, ftmFs) * ftmFs;
+    const halfStep = 500 / extruderStepsPerMm; // µm
+    const errorMicrons = quantizationError.map((e) => e * 1000);
+    const plotHeight = rect.height / 2;
+
+    const peakRate = stepRate.reduce((peak, v) => Math.max(peak, Math.abs(v)), 0);
+    const rateRange = Math.max(peakRate, maxStepRate) * 1.1;
+    const panels = [
+      { values: stepRate, min: -rateRange, max: rateRange, bound: maxStepRate, label: 'Step rate (steps/s)' },
+      { values: errorMicrons, min: -halfStep * 1.2, max: halfStep * 1.2, bound: halfStep, label: 'Quantization (µm)' },
+    ];
+
+    panels.forEach(({ values, min, max, bound, label }, plotIndex) => {
+      const yOffset = plotIndex * plotHeight;
+      const y = (value: number) => yOffset + 20 + ((max - value) / (max - min)) * (plotHeight - 40);
+      const x = (i: number) => 50 + (i / Math.max(values.length - 1, 1)) * (rect.width - 100);
+
+      this.drawAxes(rect.width, yOffset, plotHeight, values.length / ftmFs, label);
+
+      // Direction reversals
+      this.ctx.strokeStyle = 'rgba(128, 128, 128, 0.4)';
+      this.ctx.beginPath();
+      for (const i of reversals) {
+        this.ctx.moveTo(x(i), yOffset + 20);
+        this.ctx.lineTo(x(i), yOffset + plotHeight - 20);
+      }
+      this.ctx.stroke();
+
+      // Limit (ISR step rate) or bound (half a step)
+      this.ctx.save();
+      this.ctx.strokeStyle = plotIndex === 0 ? 'red' : 'gray';
+      this.ctx.setLineDash([6, 4]);
+      this.ctx.beginPath();
+      for (const level of [bound, -bound]) {
+        this.ctx.moveTo(50, y(level));
+        this.ctx.lineTo(rect.width - 50, y(level));
+      }
+      this.ctx.stroke();
+      this.ctx.restore();
+
+      this.ctx.strokeStyle = 'blue';
+      this.ctx.lineWidth = 1;
+      this.ctx.beginPath();
+      values.forEach((value, i) => {
+        if (i === 0) {
+          this.ctx.moveTo(x(i), y(value));
+        } else {
+          this.ctx.lineTo(x(i), y(value));
+        }
+      });
+      this.ctx.stroke();
+
+      if (plotIndex === 0) {
+        this.ctx.fillStyle = 'red';
+        for (const i of overruns) this.ctx.fillRect(x(i) - 1.5, y(values[i]) - 1.5, 3, 3);
+      }
+    });
+
+    this.ctx.font = '10px Arial';
+    this.ctx.textAlign = 'right';
+    this.ctx.fillStyle = overruns.length > 0 ? 'red' : '#333';
+    this.ctx.fillText(`${overruns.length} ISR overruns`, rect.width - 50, 30);
+    this.ctx.fillStyle = 'gray';
+    this.ctx.fillText(`${reversals.length} direction reversals`, rect.width - 50, 40);
+    this.ctx.textAlign = 'left';
+  }
+
+  private drawAxes(width: number, yOffset: number, plotHeight: number, duration: number, label: string): void {
+    this.ctx.strokeStyle = '#333';
+    this.ctx.lineWidth = 1;
+    this.ctx.beginPath();
+    this.ctx.moveTo(50, yOffset + 20);
+    this.ctx.lineTo(50, yOffset + plotHeight - 20);
+    this.ctx.lineTo(width - 50, yOffset + plotHeight - 20);
+    this.ctx.stroke();
+
+    this.ctx.font = '10px Arial';
+    this.ctx.fillStyle = '#333';
+    this.ctx.textAlign = 'center';
+    const durationMs = duration * 1000;
+    const step = [1, 2, 5, 10, 20, 50, 100, 200, 500, 1000].find((s) => durationMs / s <= 10) ?? 2000;
+    for (let ms = 0; ms <= durationMs; ms += step) {
+      this.ctx.fillText(`${ms} ms`, 50 + (ms / durationMs) * (width - 100), yOffset + plotHeight - 8);
+    }
+    this.ctx.textAlign = 'left';
+
+    this.ctx.font = '14px Arial';
+    this.ctx.fillText(label, 45, yOffset + 15);
+  }
+}
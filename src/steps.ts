@@ -0,0 +1,45 @@
+// Step generation from the FTMotion buffer: every FTM sample the extruder position is rounded to whole microsteps
+// and the difference to the previous sample is issued as step pulses by the stepper ISR
+export interface StepSimulation {
+  steps: Float64Array; // signed steps issued per FTM sample
+  stepRate: Float64Array; // steps/s
+  quantizationError: Float64Array; // mm, issued minus commanded position
+  reversals: number[]; // sample indices where the step direction flips
+  overruns: number[]; // sample indices with more steps than the ISR can emit
+}
+
+// Marlin's FTM_STEPPER_FS: the ISR emits at most one step per tick
+export const maxStepsPerSample = (stepperIsrFrequency: number, ftmFs: number) =>
+  Math.floor(stepperIsrFrequency / ftmFs);
+
+export function simulateSteps(
+  positions: Float64Array,
+  stepsPerMm: number,
+  ftmFs: number,
+  stepperIsrFrequency: number
+): StepSimulation {
+  const maxSteps = maxStepsPerSample(stepperIsrFrequency, ftmFs);
+  const steps = new Float64Array(positions.length);
+  const stepRate = new Float64Array(positions.length);
+  const quantizationError = new Float64Array(positions.length);
+  const reversals: number[] = [];
+  const overruns: number[] = [];
+
+  let count = Math.round((positions[0] ?? 0) * stepsPerMm);
+  let direction = 0;
+  positions.forEach((position, i) => {
+    const target = Math.round(position * stepsPerMm);
+    const delta = target - count;
+    count = target;
+    steps[i] = delta;
+    stepRate[i] = delta * ftmFs;
+    quantizationError[i] = target / stepsPerMm - position;
+    if (delta !== 0) {
+      if (direction !== 0 && Math.sign(delta) !== direction) reversals.push(i);
+      direction = Math.sign(delta);
+    }
+    if (Math.abs(delta) > maxSteps) overruns.push(i);
+  });
+
+  return { steps, stepRate, quantizationError, reversals, overruns };
+}
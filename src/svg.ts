@@ -0,0 +1,154 @@
+// The subset of CanvasRenderingContext2D the plots draw with, implemented by a canvas context and by SvgContext
+export interface DrawingContext {
+  strokeStyle: string | CanvasGradient | CanvasPattern;
+  fillStyle: string | CanvasGradient | CanvasPattern;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasRenderingContext2D['textAlign'];
+  globalAlpha: number;
+  save(): void;
+  restore(): void;
+  setTransform(a: number, b: number, c: number, d: number, e: number, f: number): void;
+  setLineDash(segments: number[]): void;
+  beginPath(): void;
+  moveTo(x: number, y: number): void;
+  lineTo(x: number, y: number): void;
+  rect(x: number, y: number, width: number, height: number): void;
+  clip(): void;
+  stroke(): void;
+  clearRect(x: number, y: number, width: number, height: number): void;
+  fillRect(x: number, y: number, width: number, height: number): void;
+  fillText(text: string, x: number, y: number): void;
+  measureText(text: string): { width: number };
+}
+
+interface SvgState {
+  strokeStyle: string;
+  fillStyle: string;
+  lineWidth: number;
+  font: string;
+  textAlign: CanvasRenderingContext2D['textAlign'];
+  globalAlpha: number;
+  lineDash: number[];
+  clipId: string | null;
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Records the drawing calls and serializes them as SVG, so the same drawing code renders to the screen
+// and to a vector file
+export class SvgContext implements DrawingContext {
+  strokeStyle = '#000';
+  fillStyle = '#000';
+  lineWidth = 1;
+  font = '10px Arial';
+  textAlign: CanvasRenderingContext2D['textAlign'] = 'left';
+  globalAlpha = 1;
+  private lineDash: number[] = [];
+  private clipId: string | null = null;
+  private stack: SvgState[] = [];
+  private path: string[] = [];
+  private elements: string[] = [];
+  private definitions: string[] = [];
+
+  constructor(
+    private width: number,
+    private height: number
+  ) {}
+
+  save(): void {
+    const { strokeStyle, fillStyle, lineWidth, font, textAlign, globalAlpha, lineDash, clipId } = this;
+    this.stack.push({ strokeStyle, fillStyle, lineWidth, font, textAlign, globalAlpha, lineDash, clipId });
+  }
+
+  restore(): void {
+    const state = this.stack.pop();
+    if (state) Object.assign(this, state);
+  }
+
+  setTransform(): void {
+    // Coordinates are already in CSS pixels
+  }
+
+  setLineDash(segments: number[]): void {
+    this.lineDash = segments;
+  }
+
+  beginPath(): void {
+    this.path = [];
+  }
+
+  moveTo(x: number, y: number): void {
+    this.path.push(`M${round(x)} ${round(y)}`);
+  }
+
+  lineTo(x: number, y: number): void {
+    this.path.push(`L${round(x)} ${round(y)}`);
+  }
+
+  rect(x: number, y: number, width: number, height: number): void {
+    this.path.push(`M${round(x)} ${round(y)}h${round(width)}v${round(height)}h${round(-width)}Z`);
+  }
+
+  clip(): void {
+    const id = `clip${this.definitions.length}`;
+    this.definitions.push(`<clipPath id="${id}"><path d="${this.path.join('')}"/></clipPath>`);
+    this.clipId = id;
+  }
+
+  stroke(): void {
+    if (this.path.length === 0) return;
+    const dash = this.lineDash.length > 0 ? ` stroke-dasharray="${this.lineDash.join(' ')}"` : '';
+    this.emit(
+      'path',
+      `d="${this.path.join('')}" fill="none" stroke="${this.strokeStyle}" stroke-width="${this.lineWidth}"${dash}`
+    );
+  }
+
+  clearRect(): void {
+    this.elements = [];
+  }
+
+  fillRect(x: number, y: number, width: number, height: number): void {
+    this.emit(
+      'rect',
+      `x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${this.fillStyle}"`
+    );
+  }
+
+  fillText(text: string, x: number, y: number): void {
+    const anchor = { left: 'start', start: 'start', center: 'middle', right: 'end', end: 'end' }[this.textAlign];
+    this.emit(
+      'text',
+      `x="${round(x)}" y="${round(y)}" fill="${this.fillStyle}" text-anchor="${anchor}" style="font: ${this.font}"`,
+      text
+    );
+  }
+
+  // Approximation; only used to size readout boxes
+  measureText(text: string): { width: number } {
+    const size = parseFloat(this.font) || 10;
+    return { width: text.length * size * 0.55 };
+  }
+
+  private emit(tag: string, attributes: string, content?: string): void {
+    const opacity = this.globalAlpha < 1 ? ` opacity="${this.globalAlpha}"` : '';
+    const clip = this.clipId ? ` clip-path="url(#${this.clipId})"` : '';
+    const open = `<${tag} ${attributes}${opacity}${clip}`;
+    this.elements.push(content === undefined ? `${open}/>` : `${open}>${escapeXml(content)}</${tag}>`);
+  }
+
+  toString(): string {
+    return (
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${this.width}" height="${this.height}" ` +
+      `viewBox="0 0 ${this.width} ${this.height}">\n` +
+      `<rect width="100%" height="100%" fill="white"/>\n` +
+      `<defs>${this.definitions.join('')}</defs>\n` +
+      this.elements.join('\n') +
+      '\n</svg>\n'
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { MotionParameters, calculateMotionProfile } from './profile.js';
+import { calculateAllTraces } from './traces.js';
+import { ExtrusionMetrics, calculateMetrics } from './metrics.js';
+import { SweepRange, sweepValues } from './optimizer.js';
+
+export type SweepParameter =
+  | 'distance'
+  | 'rate'
+  | 'acceleration'
+  | 'deceleration'
+  | 'accOvershoot'
+  | 'jerk'
+  | 'k'
+  | 'smoothingTime'
+  | 'paSmoothTime'
+  | 'pressureTau';
+
+// Default grid per sweepable parameter, within the slider ranges
+export const sweepParameters: Record<SweepParameter, { label: string; range: SweepRange }> = {
+  distance: { label: 'Distance (mm)', range: { min: 1, max: 50, steps: 15 } },
+  rate: { label: 'Rate (mm/s)', range: { min: 20, max: 300, steps: 15 } },
+  acceleration: { label: 'Acceleration (mm/s²)', range: { min: 500, max: 10000, steps: 15 } },
+  deceleration: { label: 'Deceleration (mm/s²)', range: { min: 500, max: 10000, steps: 15 } },
+  accOvershoot: { label: 'Acceleration overshoot', range: { min: 1.25, max: 1.875, steps: 11 } },
+  jerk: { label: 'Jerk (mm/s³)', range: { min: 5000, max: 500000, steps: 15 } },
+  k: { label: 'K', range: { min: 0, max: 0.2, steps: 15 } },
+  smoothingTime: { label: 'Smoothing time (s)', range: { min: 0, max: 0.05, steps: 11 } },
+  paSmoothTime: { label: 'PA smooth time (s)', range: { min: 0, max: 0.1, steps: 11 } },
+  pressureTau: { label: 'Pressure tau (s)', range: { min: 0.005, max: 0.1, steps: 15 } },
+};
+
+export interface SweepResult {
+  xValues: number[];
+  yValues: number[];
+  values: number[][]; // values[yIndex][xIndex]
+}
+
+// Runs the trace pipeline at every grid point and collects one metric
+export function sweep(
+  params: MotionParameters,
+  x: SweepParameter,
+  y: SweepParameter,
+  metric: keyof ExtrusionMetrics,
+  xRange: SweepRange = sweepParameters[x].range,
+  yRange: SweepRange = sweepParameters[y].range
+): SweepResult {
+  const xValues = sweepValues(xRange);
+  const yValues = sweepValues(yRange);
+  const values = yValues.map((yValue) =>
+    xValues.map((xValue) => {
+      const point = { ...params, [x]: xValue, [y]: yValue };
+      return calculateMetrics(calculateAllTraces(calculateMotionProfile(point), point), point)[metric];
+    })
+  );
+  return { xValues, yValues, values };
+}
@@ -0,0 +1,90 @@
+import { MotionParameters } from './profile.js';
+import { applyAdvance } from './advance.js';
+import { shape } from './shaper.js';
+import { simulateNozzle, simulatePhysicalNozzle } from './nozzle.js';
+
+// Traces grouped by derivative level; trace i of every level is labelled labels[i]
+// and its first value is at sample offsets[i] of the planned trace
+export interface Traces {
+  position: Float64Array[];
+  velocity: Float64Array[];
+  acceleration: Float64Array[];
+  labels: string[];
+  offsets: number[];
+}
+
+// Samples the with-advance and effective traces start after the planned one
+export const advanceOffset = 2;
+
+export const derivate = (arr: Float64Array, dt: number) => arr.map((p, i) => (i === 0 ? 0 : (p - arr[i - 1]) / dt));
+
+// Min and max in one pass; spreading long traces into Math.min/Math.max overflows the call stack
+export function extent(values: ArrayLike<number>): { min: number; max: number } {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  return { min, max };
+}
+
+export function calculateAllTraces(posRaw: Float64Array, params: MotionParameters): Traces {
+  const dt = 1 / params.ftmFs;
+
+  // Calculate derivatives
+  const velRaw = derivate(posRaw, dt);
+  const accRaw = derivate(velRaw, dt);
+
+  // Input shaping of the travel axes, which the extrusion has to follow
+  const { shaper, shaperFrequency, shaperDamping, shaperStage } = params;
+  const shapeAxes = (positions: Float64Array) => shape(positions, shaper, shaperFrequency, shaperDamping, dt);
+  const posShaped = shapeAxes(posRaw);
+  const velShaped = derivate(posShaped, dt);
+  const accShaped = derivate(velShaped, dt);
+
+  // Calculate extruder(t) values - apply the advance term to posRaw, then filter per the advance algorithm
+  const posIn = shaperStage === 'before-smoothing' ? posShaped : posRaw;
+  const velIn = shaperStage === 'before-smoothing' ? velShaped : velRaw;
+  let posWithAdvance = applyAdvance(posIn, velIn, params);
+  if (shaperStage === 'after-smoothing') posWithAdvance = shapeAxes(posWithAdvance);
+  let velWithAdvance = derivate(posWithAdvance, dt);
+  let accWithAdvance = derivate(velWithAdvance, dt);
+  posWithAdvance = posWithAdvance.slice(advanceOffset);
+  velWithAdvance = velWithAdvance.slice(advanceOffset);
+  accWithAdvance = accWithAdvance.slice(advanceOffset);
+
+  let posEffective: Float64Array;
+  let velEffective: Float64Array;
+  let accEffective: Float64Array;
+  if (params.nozzleModel === 'physical') {
+    // Pressure, filament path and melt dynamics independent of K
+    posEffective = simulatePhysicalNozzle(posWithAdvance, params, dt);
+    velEffective = derivate(posEffective, dt);
+    accEffective = derivate(velEffective, dt);
+  } else {
+    // Calculate effective values using exponential smoothing with tau = k
+    const tau = params.k;
+    const alpha = 1 - Math.exp(-dt / tau);
+    posEffective = simulateNozzle(posWithAdvance, alpha);
+    velEffective = simulateNozzle(velWithAdvance, alpha);
+    accEffective = simulateNozzle(accWithAdvance, alpha);
+  }
+
+  if (shaper === 'none') {
+    return {
+      position: [posRaw, posWithAdvance, posEffective],
+      velocity: [velRaw, velWithAdvance, velEffective],
+      acceleration: [accRaw, accWithAdvance, accEffective],
+      labels: ['Planned', 'With advance', 'Effective'],
+      offsets: [0, advanceOffset, advanceOffset],
+    };
+  }
+  return {
+    position: [posRaw, posWithAdvance, posEffective, posShaped],
+    velocity: [velRaw, velWithAdvance, velEffective, velShaped],
+    acceleration: [accRaw, accWithAdvance, accEffective, accShaped],
+    labels: ['Planned', 'With advance', 'Effective', 'Shaped'],
+    offsets: [0, advanceOffset, advanceOffset, 0],
+  };
+}
@@ -1,48 +1,113 @@
-export function trapezoidalProfile(distance: number, rate: number, acceleration: number, dt: number): number[] {
-  const profile: number[] = [];
+import { Round, exact } from './arithmetic.js';
+
+export interface TrapezoidTimings {
+  T1: number; // accel time
+  T2: number; // coast time
+  T3: number; // decel time
+  nominal_speed: number; // reached speed (may be lower than the requested rate)
+}
 
-  // Use the same timing calculation as Marlin 6POLY
-  const initial_speed = 0.0;
-  const final_speed = 0.0;
+// Same timing calculation as Marlin 6POLY, with separate acceleration and deceleration
+export function trapezoidTimings(
+  distance: number,
+  rate: number,
+  acceleration: number,
+  deceleration: number,
+  initial_speed: number,
+  final_speed: number,
+  round: Round = exact
+): TrapezoidTimings {
   let nominal_speed = rate;
 
-  const invA = 1.0 / acceleration;
-  const ldiff = distance + 0.5 * invA * (initial_speed * initial_speed + final_speed * final_speed);
+  const halfInvA = round(0.5 / acceleration);
+  const halfInvD = round(0.5 / deceleration);
+  const halfInvSum = round(halfInvA + halfInvD);
+  const ldiff = round(
+    round(distance + round(round(halfInvA * initial_speed) * initial_speed)) +
+      round(round(halfInvD * final_speed) * final_speed)
+  );
 
-  let T2 = ldiff / nominal_speed - invA * nominal_speed;
+  let T2 = round(round(ldiff / nominal_speed) - round(halfInvSum * nominal_speed));
   if (T2 < 0.0) {
+    // Too short to reach cruise: accel straight into decel at the speed where both ramps meet
     T2 = 0.0;
-    nominal_speed = Math.sqrt(ldiff * acceleration);
+    nominal_speed = round(Math.sqrt(round(ldiff / halfInvSum)));
   }
+  // Too short even for the entry/exit speed change; the planner normally prevents this
+  nominal_speed = Math.max(nominal_speed, initial_speed, final_speed);
+
+  const T1 = round(round(nominal_speed - initial_speed) / acceleration);
+  const T3 = round(round(nominal_speed - final_speed) / deceleration);
+
+  return { T1, T2, T3, nominal_speed };
+}
+
+// Nothing to travel, or no speed or acceleration to travel it with; the generators return no samples for these
+export function isDegenerateMove(distance: number, rate: number, acceleration: number, deceleration: number): boolean {
+  return !(distance > 0 && rate > 0 && acceleration > 0 && deceleration > 0);
+}
+
+// The sample time accumulates, so a sample meant to land exactly at the end of the move can come out a rounding
+// error late in float64; it is still sampled, at the end of the move
+export const lastSampleTime = (totalTime: number, dt: number) => totalTime + 1e-6 * dt;
+
+export function trapezoidalProfile(
+  distance: number,
+  rate: number,
+  acceleration: number,
+  deceleration: number,
+  dt: number,
+  initial_speed = 0.0,
+  final_speed = 0.0,
+  startTime = 0.0,
+  round: Round = exact
+): number[] {
+  const profile: number[] = [];
+  if (isDegenerateMove(distance, rate, acceleration, deceleration)) return profile;
+
+  const { T1, T2, T3, nominal_speed } = trapezoidTimings(
+    distance,
+    rate,
+    acceleration,
+    deceleration,
+    initial_speed,
+    final_speed,
+    round
+  );
 
-  const T1 = (nominal_speed - initial_speed) * invA;
-  const T3 = (nominal_speed - final_speed) * invA;
+  const decel_start = round(T1 + T2);
+  const pos_before_coast = round(round(0.5 * round(initial_speed + nominal_speed)) * T1);
+  const pos_at_decel_start = round(pos_before_coast + round(nominal_speed * T2));
 
   // Generate profile points - calculate positions
-  let time = 0;
-  const totalTime = T1 + T2 + T3;
+  let time = startTime;
+  const totalTime = round(decel_start + T3);
 
-  while (time <= totalTime) {
+  while (time <= lastSampleTime(totalTime, dt)) {
+    const now = Math.min(time, totalTime);
     let position: number;
 
-    if (time < T1) {
+    if (now < T1) {
       // Accel phase
-      const t = time;
-      position = initial_speed * t + 0.5 * acceleration * t * t;
-    } else if (time <= T1 + T2) {
+      const t = now;
+      position = round(round(initial_speed * t) + round(round(round(0.5 * acceleration) * t) * t));
+    } else if (now <= decel_start) {
       // Coast
-      const t_coast = time - T1;
-      position = 0.5 * (initial_speed + nominal_speed) * T1 + nominal_speed * t_coast;
+      const t_coast = round(now - T1);
+      position = round(pos_before_coast + round(nominal_speed * t_coast));
     } else {
       // Decel phase
-      const t_decel = time - (T1 + T2);
-      const pos_at_decel_start = 0.5 * (initial_speed + nominal_speed) * T1 + nominal_speed * T2;
-      position = pos_at_decel_start + nominal_speed * t_decel - 0.5 * acceleration * t_decel * t_decel;
+      const t_decel = round(now - decel_start);
+      position = round(
+        round(pos_at_decel_start + round(nominal_speed * t_decel)) -
+          round(round(round(0.5 * deceleration) * t_decel) * t_decel)
+      );
     }
 
     profile.push(position);
 
-    time += dt;
+    // The sample time accumulates, as in the firmware loop
+    time = round(time + dt);
   }
 
   return profile;